@@ -11,11 +11,14 @@ import {
 import * as WebBrowser from 'expo-web-browser';
 import * as Google from 'expo-auth-session/providers/google';
 import { useRouter } from 'expo-router';
+import { FirebaseError } from 'firebase/app';
 import {
+  EmailAuthProvider,
   GoogleAuthProvider,
   createUserWithEmailAndPassword,
   linkWithCredential,
   onAuthStateChanged,
+  signInAnonymously,
   signInWithCredential,
   signInWithEmailAndPassword,
   signOut,
@@ -27,6 +30,18 @@ import { getFirebaseAuth } from '@/lib/firebase';
 
 WebBrowser.maybeCompleteAuthSession();
 
+// Linking fails with these when the email or Google account already belongs to someone.
+// Signing in to it instead would switch uids and lose the guest's stories, so say so.
+function describeLinkError(firebaseError: unknown, fallback: string) {
+  if (
+    firebaseError instanceof FirebaseError &&
+    (firebaseError.code === 'auth/email-already-in-use' || firebaseError.code === 'auth/credential-already-in-use')
+  ) {
+    return 'That account already exists. Guest stories can only be saved to a new account.';
+  }
+  return firebaseError instanceof Error ? firebaseError.message : fallback;
+}
+
 export default function AuthScreen() {
   const auth = getFirebaseAuth();
   const router = useRouter();
@@ -41,11 +56,16 @@ export default function AuthScreen() {
   const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [user, setUser] = useState<User | null>(null);
+  // Kept apart from `user`: linking updates the same User object, so no new state arrives.
+  const [isGuest, setIsGuest] = useState(false);
+  // Set while a new account gets its display name, which lands after the sign-in itself.
+  const [namingAccount, setNamingAccount] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     const unsubscribeAuth = onAuthStateChanged(auth, (nextUser) => {
       setUser(nextUser);
+      setIsGuest(Boolean(nextUser?.isAnonymous));
     });
 
     return () => unsubscribeAuth();
@@ -59,18 +79,24 @@ export default function AuthScreen() {
         return;
       }
       const credential = GoogleAuthProvider.credential(idToken);
-      const action = user ? linkWithCredential(user, credential) : signInWithCredential(auth, credential);
-      action.catch((firebaseError) => {
-        setError(firebaseError instanceof Error ? firebaseError.message : 'Google sign-in failed.');
-      });
+      if (!user) {
+        signInWithCredential(auth, credential).catch((firebaseError) => {
+          setError(firebaseError instanceof Error ? firebaseError.message : 'Google sign-in failed.');
+        });
+        return;
+      }
+      // Linking keeps the uid, so a guest's stories stay theirs.
+      linkWithCredential(user, credential)
+        .then(() => setIsGuest(false))
+        .catch((firebaseError) => setError(describeLinkError(firebaseError, 'Google sign-in failed.')));
     }
   }, [googleResponse, auth, user]);
 
   useEffect(() => {
-    if (user) {
+    if (user && !namingAccount) {
       router.replace('/stories');
     }
-  }, [user, router]);
+  }, [user, namingAccount, router]);
 
   const handleRegister = async () => {
     setError(null);
@@ -79,11 +105,14 @@ export default function AuthScreen() {
       setError('Display name is required to sign up.');
       return;
     }
+    setNamingAccount(true);
     try {
       const result = await createUserWithEmailAndPassword(auth, email.trim(), password);
       await updateProfile(result.user, { displayName: name });
     } catch (firebaseError) {
       setError(firebaseError instanceof Error ? firebaseError.message : 'Could not sign up.');
+    } finally {
+      setNamingAccount(false);
     }
   };
 
@@ -96,6 +125,36 @@ export default function AuthScreen() {
     }
   };
 
+  const handleGuest = async () => {
+    setError(null);
+    const name = displayName.trim();
+    if (!name) {
+      setError('Pick a name so the other players know who you are.');
+      return;
+    }
+    setNamingAccount(true);
+    try {
+      const result = await signInAnonymously(auth);
+      await updateProfile(result.user, { displayName: name });
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not start a guest session.');
+    } finally {
+      setNamingAccount(false);
+    }
+  };
+
+  const handleUpgrade = async () => {
+    if (!user) return;
+    setError(null);
+    try {
+      await linkWithCredential(user, EmailAuthProvider.credential(email.trim(), password));
+      setIsGuest(false);
+      setPassword('');
+    } catch (firebaseError) {
+      setError(describeLinkError(firebaseError, 'Could not save your account.'));
+    }
+  };
+
   const handleLogout = async () => {
     setError(null);
     try {
@@ -114,13 +173,41 @@ export default function AuthScreen() {
         </Text>
         {error && <Text style={styles.error}>{error}</Text>}
 
-        {user ? (
+        {user && isGuest ? (
+          <>
+            <Text style={styles.status}>Playing as guest {user.displayName}</Text>
+            <Text style={styles.subtitle}>
+              Add an email or Google account to keep your stories if you sign out or change devices.
+            </Text>
+            <TextInput
+              value={email}
+              onChangeText={setEmail}
+              placeholder="Email"
+              style={styles.input}
+              autoCapitalize="none"
+              keyboardType="email-address"
+            />
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              secureTextEntry
+              style={styles.input}
+            />
+            <ActionButton label="Save with email" onPress={handleUpgrade} disabled={!email || !password} />
+            <ButtonRow>
+              <ActionButton label="Save with Google" onPress={() => promptGoogle()} disabled={!googleRequest} />
+              <ActionButton label="Sign out" onPress={handleLogout} />
+            </ButtonRow>
+          </>
+        ) : user ? (
           <>
             <Text style={styles.status}>Signed in as {user.displayName || user.email}</Text>
             <ButtonRow>
               <ActionButton label="Link Google" onPress={() => promptGoogle()} disabled={!googleRequest} />
               <ActionButton label="Sign out" onPress={handleLogout} />
             </ButtonRow>
+            <ActionButton label="Kids' profiles" onPress={() => router.push('/kids')} />
           </>
         ) : (
           <>
@@ -158,6 +245,8 @@ export default function AuthScreen() {
               onPress={() => promptGoogle()}
               disabled={!googleRequest}
             />
+            <Text style={styles.subtitle}>No account? Enter a display name above and play as a guest.</Text>
+            <ActionButton label="Play as guest" onPress={handleGuest} disabled={!displayName.trim()} />
           </>
         )}
       </ScrollView>
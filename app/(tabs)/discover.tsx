@@ -3,9 +3,18 @@ import { SafeAreaView, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity
 import { onAuthStateChanged, type User } from 'firebase/auth';
 
 import { getFirebaseAuth } from '@/lib/firebase';
-import { addPlayerToSession, ensureSessionExists, findSession, type StorySessionState } from '@/lib/story-session';
-
-type FoundSession = StorySessionState & { id: string };
+import { normalizeSessionId } from '@/lib/join-code';
+import { formatStoryPreview } from '@/lib/story-format';
+import {
+  cancelJoinRequest,
+  findSession,
+  PrivateStoryError,
+  requestToJoin,
+  showsStoryPreview,
+  subscribeToJoinRequest,
+  type JoinRequest,
+  type StorySessionSummary,
+} from '@/lib/story-session';
 
 export default function DiscoverScreen() {
   const auth = getFirebaseAuth();
@@ -14,25 +23,51 @@ export default function DiscoverScreen() {
   const [searching, setSearching] = useState(false);
   const [joining, setJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [session, setSession] = useState<FoundSession | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [session, setSession] = useState<StorySessionSummary | null>(null);
+  // Set instead of `session` for a story only its players and family can see.
+  const [privateSessionId, setPrivateSessionId] = useState<string | null>(null);
+  const [ownJoinRequest, setOwnJoinRequest] = useState<JoinRequest | null>(null);
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, setUser);
     return () => unsub();
   }, [auth]);
 
+  const foundId = session?.id ?? privateSessionId;
+
+  useEffect(() => {
+    if (!foundId || !user) {
+      setOwnJoinRequest(null);
+      return;
+    }
+    return subscribeToJoinRequest(foundId, user.uid, setOwnJoinRequest, () => setOwnJoinRequest(null));
+  }, [foundId, user]);
+
+  // Resolves to whether there is a story with this code.
+  const loadSession = async (id: string) => {
+    try {
+      const found = await findSession(id);
+      setSession(found);
+      setPrivateSessionId(null);
+      return found !== null;
+    } catch (firebaseError) {
+      if (!(firebaseError instanceof PrivateStoryError)) throw firebaseError;
+      setSession(null);
+      setPrivateSessionId(id);
+      return true;
+    }
+  };
+
   const handleSearch = async () => {
-    const trimmed = sessionId.trim();
+    const trimmed = normalizeSessionId(sessionId);
     if (!trimmed) return;
     setSearching(true);
     setError(null);
+    setNotice(null);
     try {
-      const found = await findSession(trimmed);
-      if (found) {
-        setSession(found);
-      } else {
-        setSession(null);
-        setError('No story found with that ID.');
+      if (!(await loadSession(trimmed))) {
+        setError('No story found with that code.');
       }
     } catch (firebaseError) {
       setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load story.');
@@ -42,14 +77,18 @@ export default function DiscoverScreen() {
   };
 
   const handleJoin = async () => {
-    if (!user || !session) return;
+    if (!user || !foundId) return;
     setJoining(true);
     setError(null);
     const name = user.displayName || user.email || 'Player';
     try {
-      await ensureSessionExists(session.id);
-      await addPlayerToSession(session.id, { id: user.uid, name });
-      setError('Request sent! You are now added to this story.');
+      const outcome = await requestToJoin(foundId, { id: user.uid, name });
+      setNotice(
+        outcome === 'joined'
+          ? 'You joined this story. Find it on the My stories tab.'
+          : 'Request sent! A host will let you in soon.'
+      );
+      await loadSession(foundId);
     } catch (firebaseError) {
       setError(firebaseError instanceof Error ? firebaseError.message : 'Could not join story.');
     } finally {
@@ -57,18 +96,36 @@ export default function DiscoverScreen() {
     }
   };
 
+  const handleCancelRequest = async () => {
+    if (!user || !foundId) return;
+    setJoining(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await cancelJoinRequest(foundId, user.uid);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not cancel the request.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const isMember = Boolean(user && session?.players.some((player) => player.id === user.uid));
+  const isPending = ownJoinRequest !== null;
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <ScrollView contentContainerStyle={styles.container}>
         <Text style={styles.title}>Discover stories</Text>
-        <Text style={styles.subtitle}>Search by story ID and join to participate.</Text>
+        <Text style={styles.subtitle}>Search by join code and join to participate.</Text>
         {!user && <Text style={styles.warning}>Sign in on the Auth tab to join stories.</Text>}
         {error && <Text style={styles.error}>{error}</Text>}
+        {notice && <Text style={styles.notice}>{notice}</Text>}
 
         <TextInput
           value={sessionId}
           onChangeText={setSessionId}
-          placeholder="Enter story ID (e.g. shared-story)"
+          placeholder="Enter join code (e.g. BLUE-TIGER-42)"
           style={styles.input}
           autoCapitalize="none"
           autoCorrect={false}
@@ -76,16 +133,52 @@ export default function DiscoverScreen() {
         />
         <ActionButton label={searching ? 'Searching…' : 'Search'} onPress={handleSearch} disabled={!sessionId} />
 
+        {privateSessionId && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Story: {privateSessionId}</Text>
+            <Text style={styles.cardHint}>{new PrivateStoryError().message}</Text>
+            {isPending ? (
+              <>
+                <Text style={styles.cardHint}>Waiting for a host to approve your request…</Text>
+                <ActionButton label="Cancel request" onPress={handleCancelRequest} disabled={joining} />
+              </>
+            ) : (
+              <ActionButton
+                label={joining ? 'Joining…' : 'Ask to join'}
+                onPress={handleJoin}
+                disabled={!user || joining}
+              />
+            )}
+          </View>
+        )}
+
         {session && (
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Story: {session.id}</Text>
             <Text style={styles.cardHint}>Players: {session.players.length}</Text>
-            <Text style={styles.cardHint}>Words: {session.storyWords.length}</Text>
-            <ActionButton
-              label={joining ? 'Joining…' : 'Join story'}
-              onPress={handleJoin}
-              disabled={!user || joining}
-            />
+            <Text style={styles.cardHint}>Words: {session.wordCount}</Text>
+            {session.wordCount > 0 && showsStoryPreview(session) && (
+              <Text style={styles.preview} numberOfLines={2}>
+                {formatStoryPreview(session.recentWords.map((entry) => entry.word), session.wordCount)}
+              </Text>
+            )}
+            <Text style={styles.cardHint}>
+              {session.joinPolicy === 'open' ? 'Anyone with the code can join.' : 'A host approves new players.'}
+            </Text>
+            {isMember ? (
+              <Text style={styles.cardHint}>You are in this story.</Text>
+            ) : isPending ? (
+              <>
+                <Text style={styles.cardHint}>Waiting for a host to approve your request…</Text>
+                <ActionButton label="Cancel request" onPress={handleCancelRequest} disabled={joining} />
+              </>
+            ) : (
+              <ActionButton
+                label={joining ? 'Joining…' : session.joinPolicy === 'open' ? 'Join story' : 'Ask to join'}
+                onPress={handleJoin}
+                disabled={!user || joining}
+              />
+            )}
           </View>
         )}
       </ScrollView>
@@ -131,6 +224,10 @@ const styles = StyleSheet.create({
     color: '#555',
     marginBottom: 4,
   },
+  notice: {
+    color: '#1d3d47',
+    textAlign: 'center',
+  },
   warning: {
     textAlign: 'center',
     color: '#b00020',
@@ -164,6 +261,10 @@ const styles = StyleSheet.create({
   cardHint: {
     color: '#555',
   },
+  preview: {
+    fontStyle: 'italic',
+    color: '#333',
+  },
   button: {
     borderRadius: 10,
     paddingVertical: 12,
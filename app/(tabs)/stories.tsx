@@ -1,15 +1,45 @@
 import { useEffect, useState } from 'react';
-import { FlatList, SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+  SafeAreaView,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 import { onAuthStateChanged, type User } from 'firebase/auth';
 import { useRouter } from 'expo-router';
 
+import { createFamily, getFamiliesForUser, joinFamily, type Family } from '@/lib/family';
 import { getFirebaseAuth } from '@/lib/firebase';
-import { getSessionsForUser } from '@/lib/story-session';
+import { formatStoryPreview } from '@/lib/story-format';
+import {
+  createSession,
+  getSessionsForFamily,
+  getSessionsForUser,
+  showsStoryPreview,
+  type StorySessionState,
+} from '@/lib/story-session';
+import { getSavedStarters, randomStarter, storyStarters, toStoryStarter, type StarterEntry } from '@/lib/story-starter';
 
-type SessionListItem = {
+type SessionListItem = Pick<StorySessionState, 'visibleWordCount' | 'template'> & {
   id: string;
   players: { id: string; name: string }[];
-  storyWords: string[];
+  wordCount: number;
+  recentWords: { word: string }[];
+  familyId: string | null;
+};
+
+/** A starter's id, `random` to pick one when the story is created, or `null` for none. */
+type StarterChoice = string | null;
+
+type StorySection = {
+  title: string;
+  /** `null` for stories outside any of the user's families. */
+  family: Family | null;
+  data: SessionListItem[];
 };
 
 export default function StoriesScreen() {
@@ -17,7 +47,12 @@ export default function StoriesScreen() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
   const [sessions, setSessions] = useState<SessionListItem[]>([]);
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [familyInput, setFamilyInput] = useState('');
+  const [savedStarters, setSavedStarters] = useState<StarterEntry[]>([]);
+  const [starterChoice, setStarterChoice] = useState<StarterChoice>(null);
   const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -30,6 +65,8 @@ export default function StoriesScreen() {
   useEffect(() => {
     if (!user) {
       setSessions([]);
+      setFamilies([]);
+      setSavedStarters([]);
       return;
     }
     refreshSessions();
@@ -41,8 +78,17 @@ export default function StoriesScreen() {
     setLoading(true);
     setError(null);
     try {
-      const results = await getSessionsForUser(user.uid);
-      setSessions(results);
+      const [ownSessions, userFamilies, starters] = await Promise.all([
+        getSessionsForUser(user.uid),
+        getFamiliesForUser(user.uid),
+        getSavedStarters(user.uid),
+      ]);
+      // Family stories show up even if the user hasn't joined them yet.
+      const familySessions = await Promise.all(userFamilies.map((family) => getSessionsForFamily(family.id)));
+      const byId = new Map([...ownSessions, ...familySessions.flat()].map((session) => [session.id, session]));
+      setSessions(Array.from(byId.values()));
+      setFamilies(userFamilies);
+      setSavedStarters(starters);
     } catch (firebaseError) {
       setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load your stories.');
     } finally {
@@ -50,6 +96,87 @@ export default function StoriesScreen() {
     }
   };
 
+  const handleCreate = async (familyId: string | null = null) => {
+    if (!user) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const starters = [...storyStarters, ...savedStarters];
+      const starter =
+        starterChoice === 'random' ? randomStarter(starters) : starters.find((entry) => entry.id === starterChoice);
+      const sessionId = await createSession(
+        { id: user.uid, name: user.displayName || user.email || 'Player' },
+        { familyId, starter: starter ? toStoryStarter(starter) : null }
+      );
+      router.push(`/story/${sessionId}`);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not create a story.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCreateFamily = async () => {
+    if (!user || !familyInput.trim()) return;
+    setError(null);
+    try {
+      const name = user.displayName || user.email || 'Player';
+      const familyId = await createFamily({ id: user.uid, name }, familyInput);
+      setFamilyInput('');
+      router.push(`/family/${familyId}`);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not create the family.');
+    }
+  };
+
+  const handleJoinFamily = async () => {
+    if (!user || !familyInput.trim()) return;
+    setError(null);
+    try {
+      const name = user.displayName || user.email || 'Player';
+      const familyId = await joinFamily(familyInput, { id: user.uid, name });
+      setFamilyInput('');
+      router.push(`/family/${familyId}`);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not join the family.');
+    }
+  };
+
+  const familyIds = new Set(families.map((family) => family.id));
+  const sections: StorySection[] = [
+    ...families.map((family) => ({
+      title: family.name,
+      family,
+      data: sessions.filter((session) => session.familyId === family.id),
+    })),
+    {
+      title: families.length ? 'Other stories' : 'Stories',
+      family: null,
+      data: sessions.filter((session) => !session.familyId || !familyIds.has(session.familyId)),
+    },
+  ].filter((section) => section.family || section.data.length || !families.length);
+
+  const renderSectionHeader = ({ section }: { section: StorySection }) => (
+    <View style={styles.sectionHeader}>
+      <Text style={styles.sectionTitle}>{section.title}</Text>
+      {section.family && (
+        <View style={styles.sectionActions}>
+          <TouchableOpacity accessibilityRole="button" onPress={() => handleCreate(section.family?.id)}>
+            <Text style={styles.link}>New story</Text>
+          </TouchableOpacity>
+          <TouchableOpacity accessibilityRole="button" onPress={() => router.push(`/family/${section.family?.id}`)}>
+            <Text style={styles.link}>Manage</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {!section.data.length && (
+        <Text style={styles.cardHint}>
+          {section.family ? 'No stories yet.' : 'No stories yet. Start a new one or join one from the Discover tab.'}
+        </Text>
+      )}
+    </View>
+  );
+
   const renderItem = ({ item }: { item: SessionListItem }) => (
     <TouchableOpacity
       style={styles.card}
@@ -57,7 +184,12 @@ export default function StoriesScreen() {
       accessibilityRole="button">
       <Text style={styles.cardTitle}>{item.id}</Text>
       <Text style={styles.cardHint}>Players: {item.players.length}</Text>
-      <Text style={styles.cardHint}>Words: {item.storyWords.length}</Text>
+      <Text style={styles.cardHint}>Words: {item.wordCount}</Text>
+      {item.wordCount > 0 && showsStoryPreview(item) && (
+        <Text style={styles.preview} numberOfLines={2}>
+          {formatStoryPreview(item.recentWords.map((entry) => entry.word), item.wordCount)}
+        </Text>
+      )}
     </TouchableOpacity>
   );
 
@@ -69,6 +201,39 @@ export default function StoriesScreen() {
         {error && <Text style={styles.error}>{error}</Text>}
         {user && (
           <>
+            <TouchableOpacity
+              accessibilityRole="button"
+              style={[styles.button, creating && styles.buttonDisabled]}
+              onPress={() => handleCreate()}
+              disabled={creating}>
+              <Text style={styles.buttonText}>{creating ? 'Creating…' : 'New story'}</Text>
+            </TouchableOpacity>
+            <View style={styles.sectionActions}>
+              <Text style={styles.cardHint}>New stories start with:</Text>
+              <TouchableOpacity accessibilityRole="button" onPress={() => router.push('/starters')}>
+                <Text style={styles.link}>My starters</Text>
+              </TouchableOpacity>
+            </View>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.chipScroller}
+              contentContainerStyle={styles.chipRow}>
+              {[
+                { id: null, title: 'Nothing' },
+                { id: 'random', title: '🎲 Surprise me' },
+                ...storyStarters,
+                ...savedStarters,
+              ].map((option) => (
+                <TouchableOpacity
+                  key={option.id ?? 'none'}
+                  accessibilityRole="button"
+                  onPress={() => setStarterChoice(option.id)}
+                  style={[styles.chip, option.id === starterChoice && styles.chipSelected]}>
+                  <Text style={styles.chipText}>{option.title}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
             <TouchableOpacity
               accessibilityRole="button"
               style={[styles.button, loading && styles.buttonDisabled]}
@@ -76,13 +241,34 @@ export default function StoriesScreen() {
               disabled={loading}>
               <Text style={styles.buttonText}>{loading ? 'Refreshing…' : 'Refresh list'}</Text>
             </TouchableOpacity>
-            <FlatList
-              data={sessions}
+            <SectionList
+              sections={sections}
               keyExtractor={(item) => item.id}
               renderItem={renderItem}
+              renderSectionHeader={renderSectionHeader}
+              stickySectionHeadersEnabled={false}
               ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
-              ListEmptyComponent={
-                <Text style={styles.subtitle}>No stories yet. Join one from the Discover tab.</Text>
+              ListFooterComponent={
+                <View style={styles.familyForm}>
+                  <Text style={styles.cardHint}>
+                    Everyone in a family sees its stories. Name a new family, or paste an invite code to join one.
+                  </Text>
+                  <TextInput
+                    value={familyInput}
+                    onChangeText={setFamilyInput}
+                    placeholder="Family name or invite code"
+                    style={styles.input}
+                    autoCorrect={false}
+                  />
+                  <View style={styles.sectionActions}>
+                    <TouchableOpacity accessibilityRole="button" onPress={handleCreateFamily}>
+                      <Text style={styles.link}>Create family</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity accessibilityRole="button" onPress={handleJoinFamily}>
+                      <Text style={styles.link}>Join with code</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
               }
               contentContainerStyle={{ gap: 8, paddingVertical: 8 }}
             />
@@ -133,6 +319,60 @@ const styles = StyleSheet.create({
   cardHint: {
     color: '#555',
   },
+  sectionHeader: {
+    gap: 4,
+    paddingTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  link: {
+    color: '#1d3d47',
+    fontWeight: '600',
+  },
+  familyForm: {
+    gap: 8,
+    paddingTop: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fdfdfd',
+  },
+  // Keeps the horizontal list from taking the SectionList's height.
+  chipScroller: {
+    flexGrow: 0,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+  },
+  chipSelected: {
+    backgroundColor: '#e6f9ff',
+    borderColor: '#00a8c7',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  preview: {
+    fontStyle: 'italic',
+    color: '#333',
+  },
   button: {
     borderRadius: 10,
     paddingVertical: 12,
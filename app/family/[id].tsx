@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SafeAreaView, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+
+import {
+  createFamilyInvite,
+  getFamily,
+  getFamilyInviteCode,
+  getFamilyRole,
+  leaveFamily,
+  removeFamilyMember,
+  revokeFamilyInvite,
+  setFamilyAdmin,
+  type Family,
+  type FamilyMember,
+} from '@/lib/family';
+import { getFirebaseAuth } from '@/lib/firebase';
+import { isPermissionDenied } from '@/lib/story-store';
+
+const roleLabels = {
+  owner: '★ owner',
+  admin: 'admin',
+  member: '',
+};
+
+export default function FamilyScreen() {
+  const auth = getFirebaseAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ id?: string | string[] }>();
+  const familyId = (Array.isArray(params.id) ? params.id[0] : params.id) ?? '';
+
+  const [user, setUser] = useState<User | null>(null);
+  const [family, setFamily] = useState<Family | null>(null);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = onAuthStateChanged(auth, (nextUser) => {
+      setUser(nextUser);
+      // Families are only shown to signed-in users, so there is nothing to load.
+      if (!nextUser) setLoading(false);
+    });
+    return () => unsub();
+  }, [auth]);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    try {
+      const nextFamily = await getFamily(familyId);
+      setFamily(nextFamily);
+      if (nextFamily && user && nextFamily.members.some((member) => member.id === user.uid)) {
+        setInviteCode(await getFamilyInviteCode(familyId));
+      }
+    } catch (firebaseError) {
+      if (isPermissionDenied(firebaseError)) {
+        setError('Only members can see this family. Ask one of them for an invite code.');
+      } else {
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load the family.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [familyId, user]);
+
+  useEffect(() => {
+    if (!user || !familyId) return;
+    refresh();
+  }, [user, familyId, refresh]);
+
+  const role = family && user ? getFamilyRole(family, user.uid) : 'member';
+  const isAdmin = role === 'owner' || role === 'admin';
+  const isMember = Boolean(family && user && family.members.some((member) => member.id === user.uid));
+
+  // Runs a family change, then reloads, since family screens don't subscribe to updates.
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : fallback);
+    }
+  };
+
+  const handleNewInvite = () => {
+    if (!user) return;
+    run(async () => setInviteCode(await createFamilyInvite(familyId, user.uid)), 'Could not make an invite code.');
+  };
+
+  const handleRevokeInvite = () => {
+    if (!user) return;
+    run(async () => {
+      await revokeFamilyInvite(familyId, user.uid);
+      setInviteCode(null);
+    }, 'Could not turn invites off.');
+  };
+
+  const handleShareInvite = async () => {
+    if (!inviteCode || !family) return;
+    try {
+      await Share.share({
+        message: `Join the ${family.name} family on fam-bam: open My stories and enter the code ${inviteCode}`,
+      });
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not share the invite.');
+    }
+  };
+
+  const handleRemove = (member: FamilyMember) => {
+    if (!user) return;
+    run(() => removeFamilyMember(familyId, user.uid, member.id), 'Could not remove that member.');
+  };
+
+  const handleToggleAdmin = (member: FamilyMember) => {
+    if (!user || !family) return;
+    const makeAdmin = !family.adminIds.includes(member.id);
+    run(() => setFamilyAdmin(familyId, user.uid, member.id, makeAdmin), 'Could not change roles.');
+  };
+
+  const handleLeave = async () => {
+    if (!user) return;
+    setError(null);
+    try {
+      await leaveFamily(familyId, user.uid);
+      router.replace('/stories');
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not leave the family.');
+    }
+  };
+
+  if (!loading && !user) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Sign in to see this family</Text>
+          <Text style={styles.subtitle}>Families are only shown to their members.</Text>
+          <ActionButton label="Sign in" onPress={() => router.replace('/auth')} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (loading || !family) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <Text style={styles.title}>{loading ? 'Loading family…' : 'Family not found'}</Text>
+          {error && <Text style={styles.error}>{error}</Text>}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={styles.title}>{family.name}</Text>
+        <Text style={styles.subtitle}>Everyone in the family sees its stories and can join them without asking.</Text>
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Members</Text>
+          {family.members.map((member) => {
+            const memberRole = getFamilyRole(family, member.id);
+            return (
+              <View key={member.id} style={styles.memberRow}>
+                <Text style={styles.memberName} numberOfLines={1}>
+                  {member.name}
+                  {roleLabels[memberRole] ? ` (${roleLabels[memberRole]})` : ''}
+                </Text>
+                {role === 'owner' && member.id !== user?.uid && (
+                  <TouchableOpacity accessibilityRole="button" onPress={() => handleToggleAdmin(member)}>
+                    <Text style={styles.link}>{memberRole === 'admin' ? 'Make member' : 'Make admin'}</Text>
+                  </TouchableOpacity>
+                )}
+                {isAdmin && memberRole !== 'owner' && member.id !== user?.uid && (
+                  <TouchableOpacity accessibilityRole="button" onPress={() => handleRemove(member)}>
+                    <Text style={styles.removeText}>Remove</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </View>
+
+        {isAdmin && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Invite members</Text>
+            {inviteCode ? (
+              <>
+                <Text style={styles.code} selectable>
+                  {inviteCode}
+                </Text>
+                <Text style={styles.hint}>New members enter this code on their My stories tab.</Text>
+                <ActionButton label="Share code" onPress={handleShareInvite} />
+                <View style={styles.buttonRow}>
+                  <ActionButton label="New code" onPress={handleNewInvite} />
+                  <ActionButton label="Turn invites off" onPress={handleRevokeInvite} />
+                </View>
+              </>
+            ) : (
+              <ActionButton label="Make an invite code" onPress={handleNewInvite} />
+            )}
+          </View>
+        )}
+
+        {isMember && <ActionButton label="Leave family" onPress={handleLeave} />}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+type ActionButtonProps = {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+};
+
+function ActionButton({ label, onPress, disabled }: ActionButtonProps) {
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      onPress={disabled ? undefined : onPress}
+      style={[styles.button, disabled && styles.buttonDisabled]}
+      activeOpacity={0.8}
+      disabled={disabled}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f4f5f7',
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#555',
+  },
+  error: {
+    color: '#b00020',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOpacity: 0.04,
+    shadowRadius: 6,
+    elevation: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  memberName: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  code: {
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+  },
+  link: {
+    color: '#1d3d47',
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#b00020',
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    backgroundColor: '#1d3d47',
+  },
+  buttonDisabled: {
+    backgroundColor: '#9fb2b9',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,295 @@
+import { useEffect, useState } from 'react';
+import { SafeAreaView, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+import { useLocalSearchParams } from 'expo-router';
+import QRCode from 'react-native-qrcode-svg';
+
+import { getFirebaseAuth } from '@/lib/firebase';
+import { buildInviteLinks } from '@/lib/invite-link';
+import { createInvite, getInvites, isInviteExpired, revokeInvite, type StoryInvite } from '@/lib/story-session';
+
+const expiryOptions: { label: string; ms: number | null }[] = [
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '1 week', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Never', ms: null },
+];
+
+export default function InviteScreen() {
+  const auth = getFirebaseAuth();
+  const params = useLocalSearchParams<{ id?: string | string[] }>();
+  const sessionId = (Array.isArray(params.id) ? params.id[0] : params.id) ?? '';
+
+  const [user, setUser] = useState<User | null>(null);
+  const [invites, setInvites] = useState<StoryInvite[]>([]);
+  const [selectedToken, setSelectedToken] = useState<string | null>(null);
+  const [expiresInMs, setExpiresInMs] = useState<number | null>(expiryOptions[1].ms);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = onAuthStateChanged(auth, setUser);
+    return () => unsub();
+  }, [auth]);
+
+  useEffect(() => {
+    if (!user || !sessionId) return;
+    getInvites(sessionId)
+      .then((results) => {
+        setInvites(results);
+        setSelectedToken((current) => current ?? results.find((invite) => !isInviteExpired(invite))?.token ?? null);
+      })
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load invites.')
+      );
+  }, [user, sessionId]);
+
+  const selectedInvite = invites.find((invite) => invite.token === selectedToken);
+  const links = selectedInvite ? buildInviteLinks(sessionId, selectedInvite.token) : null;
+
+  const handleCreate = async () => {
+    if (!user) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const invite = await createInvite(sessionId, user.uid, expiresInMs);
+      setInvites((current) => [invite, ...current]);
+      setSelectedToken(invite.token);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not create an invite.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: StoryInvite) => {
+    if (!user) return;
+    setError(null);
+    try {
+      await revokeInvite(sessionId, user.uid, invite.token);
+      setInvites((current) => current.filter((entry) => entry.token !== invite.token));
+      setSelectedToken((current) => (current === invite.token ? null : current));
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not turn the invite off.');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!links) return;
+    try {
+      const message = [`Join our story ${sessionId} on fam-bam!`, links.webUrl, links.appUrl]
+        .filter(Boolean)
+        .join('\n');
+      await Share.share({ title: `Join story ${sessionId}`, message });
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not share the invite.');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={styles.title}>Invite to {sessionId}</Text>
+        <Text style={styles.subtitle}>
+          Anyone with an invite joins straight away, even when new players need approval. Turn an invite off to stop
+          it working.
+        </Text>
+        {!user && <Text style={styles.error}>Sign in on the Auth tab to invite players.</Text>}
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        {links && (
+          <View style={styles.card}>
+            <View style={styles.qr}>
+              {/* The web link opens in any phone camera; the app link needs fam-bam installed. */}
+              <QRCode value={links.webUrl ?? links.appUrl} size={220} />
+            </View>
+            <Text style={styles.hint}>Scan with a phone camera to join.</Text>
+            {links.webUrl && (
+              <Text style={styles.link} selectable>
+                {links.webUrl}
+              </Text>
+            )}
+            <Text style={styles.link} selectable>
+              {links.appUrl}
+            </Text>
+            <ActionButton label="Share invite" onPress={handleShare} />
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>New invite</Text>
+          <View style={styles.chipRow}>
+            <Text style={styles.hint}>Stops working after:</Text>
+            {expiryOptions.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                accessibilityRole="button"
+                onPress={() => setExpiresInMs(option.ms)}
+                style={[styles.chip, option.ms === expiresInMs && styles.chipSelected]}>
+                <Text style={styles.chipText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <ActionButton
+            label={creating ? 'Creating…' : 'Create invite'}
+            onPress={handleCreate}
+            disabled={!user || creating}
+          />
+        </View>
+
+        {invites.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Invites</Text>
+            {invites.map((invite) => {
+              const expired = isInviteExpired(invite);
+              return (
+                <View key={invite.token} style={styles.inviteRow}>
+                  <TouchableOpacity
+                    accessibilityRole="button"
+                    disabled={expired}
+                    onPress={() => setSelectedToken(invite.token)}
+                    style={[styles.inviteInfo, invite.token === selectedToken && styles.inviteSelected]}>
+                    <Text style={[styles.inviteText, expired && styles.inviteExpired]}>
+                      {expired
+                        ? 'Expired'
+                        : invite.expiresAt === null
+                          ? 'Never expires'
+                          : `Until ${new Date(invite.expiresAt).toLocaleString()}`}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity accessibilityRole="button" onPress={() => handleRevoke(invite)}>
+                    <Text style={styles.removeText}>{expired ? 'Delete' : 'Turn off'}</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+type ActionButtonProps = {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+};
+
+function ActionButton({ label, onPress, disabled }: ActionButtonProps) {
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      onPress={disabled ? undefined : onPress}
+      style={[styles.button, disabled && styles.buttonDisabled]}
+      activeOpacity={0.8}
+      disabled={disabled}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f4f5f7',
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#555',
+  },
+  error: {
+    color: '#b00020',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOpacity: 0.04,
+    shadowRadius: 6,
+    elevation: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  qr: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+  },
+  link: {
+    color: '#1d3d47',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+  },
+  chipSelected: {
+    backgroundColor: '#e6f9ff',
+    borderColor: '#00a8c7',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  inviteInfo: {
+    flex: 1,
+    borderRadius: 10,
+    padding: 8,
+  },
+  inviteSelected: {
+    backgroundColor: '#e6f9ff',
+  },
+  inviteText: {
+    fontWeight: '600',
+  },
+  inviteExpired: {
+    color: '#999',
+  },
+  removeText: {
+    color: '#b00020',
+    fontWeight: '600',
+  },
+  button: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#1d3d47',
+  },
+  buttonDisabled: {
+    backgroundColor: '#9fb2b9',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+
+import {
+  ageBands,
+  childAvatars,
+  createChildProfile,
+  defaultParentalSettings,
+  deleteChildProfile,
+  getChildProfiles,
+  getParentalSettings,
+  setParentalSettings,
+  type AgeBand,
+  type ChildProfile,
+  type ParentalSettings,
+} from '@/lib/child-profile';
+import { contentFilterLevels, describeContentFilter } from '@/lib/content-filter';
+import { getFirebaseAuth } from '@/lib/firebase';
+
+const ageBandLabels: Record<AgeBand, string> = {
+  'under-6': 'Under 6',
+  '6-8': '6–8',
+  '9-12': '9–12',
+  '13-17': '13–17',
+};
+
+export default function KidsScreen() {
+  const auth = getFirebaseAuth();
+  const [user, setUser] = useState<User | null>(null);
+  const [children, setChildren] = useState<ChildProfile[]>([]);
+  const [settings, setSettings] = useState<ParentalSettings>(defaultParentalSettings);
+  const [nameInput, setNameInput] = useState('');
+  const [avatar, setAvatar] = useState(childAvatars[0]);
+  const [ageBand, setAgeBand] = useState<AgeBand>('6-8');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = onAuthStateChanged(auth, setUser);
+    return () => unsub();
+  }, [auth]);
+
+  useEffect(() => {
+    if (!user || user.isAnonymous) return;
+    Promise.all([getChildProfiles(user.uid), getParentalSettings(user.uid)])
+      .then(([nextChildren, nextSettings]) => {
+        setChildren(nextChildren);
+        setSettings(nextSettings);
+      })
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load child profiles.')
+      );
+  }, [user]);
+
+  const handleAdd = async () => {
+    if (!user || !nameInput.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const child = await createChildProfile(user.uid, { name: nameInput, avatar, ageBand });
+      setChildren((current) => [...current, child]);
+      setNameInput('');
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not add the child profile.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (child: ChildProfile) => {
+    if (!user) return;
+    setError(null);
+    try {
+      await deleteChildProfile(user.uid, child.id);
+      setChildren((current) => current.filter((entry) => entry.id !== child.id));
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not delete the child profile.');
+    }
+  };
+
+  const handleSettings = async (changes: Partial<ParentalSettings>) => {
+    if (!user) return;
+    setError(null);
+    try {
+      setSettings(await setParentalSettings(user.uid, changes));
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not save the settings.');
+    }
+  };
+
+  if (!user || user.isAnonymous) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Kids</Text>
+          <Text style={styles.subtitle}>
+            {user ? 'Save your guest account on the Auth tab' : 'Sign in on the Auth tab'} to add child profiles.
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={styles.title}>Kids</Text>
+        <Text style={styles.subtitle}>
+          Kids play on your login as their own players. Add them from a story&apos;s Players card.
+        </Text>
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Child profiles</Text>
+          {children.map((child) => (
+            <View key={child.id} style={styles.childRow}>
+              <Text style={styles.avatar}>{child.avatar}</Text>
+              <Text style={styles.childName} numberOfLines={1}>
+                {child.name} · {ageBandLabels[child.ageBand]}
+              </Text>
+              <TouchableOpacity accessibilityRole="button" onPress={() => handleDelete(child)}>
+                <Text style={styles.removeText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          {!children.length && <Text style={styles.hint}>No child profiles yet.</Text>}
+          <TextInput
+            value={nameInput}
+            onChangeText={setNameInput}
+            placeholder="Child's name"
+            style={styles.input}
+            onSubmitEditing={handleAdd}
+          />
+          <View style={styles.chipRow}>
+            {childAvatars.map((option) => (
+              <TouchableOpacity
+                key={option}
+                accessibilityRole="button"
+                accessibilityLabel={`Avatar ${option}`}
+                onPress={() => setAvatar(option)}
+                style={[styles.chip, option === avatar && styles.chipSelected]}>
+                <Text style={styles.avatar}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            <Text style={styles.hint}>Age:</Text>
+            {ageBands.map((band) => (
+              <TouchableOpacity
+                key={band}
+                accessibilityRole="button"
+                onPress={() => setAgeBand(band)}
+                style={[styles.chip, band === ageBand && styles.chipSelected]}>
+                <Text style={styles.chipText}>{ageBandLabels[band]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <ActionButton
+            label={saving ? 'Adding…' : 'Add child profile'}
+            onPress={handleAdd}
+            disabled={saving || !nameInput.trim()}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Parental settings</Text>
+          <Text style={styles.hint}>
+            Every child profile follows these. Kids&apos; words are checked with this filter or the story&apos;s,
+            whichever is stricter.
+          </Text>
+          <View style={styles.chipRow}>
+            <Text style={styles.hint}>Word filter:</Text>
+            {contentFilterLevels.map((level) => (
+              <TouchableOpacity
+                key={level}
+                accessibilityRole="button"
+                onPress={() => handleSettings({ contentFilter: level })}
+                style={[styles.chip, level === settings.contentFilter && styles.chipSelected]}>
+                <Text style={styles.chipText}>{describeContentFilter(level)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            <Text style={styles.hint}>Stories outside our families:</Text>
+            {[true, false].map((allowed) => (
+              <TouchableOpacity
+                key={String(allowed)}
+                accessibilityRole="button"
+                onPress={() => handleSettings({ canJoinPublicStories: allowed })}
+                style={[styles.chip, allowed === settings.canJoinPublicStories && styles.chipSelected]}>
+                <Text style={styles.chipText}>{allowed ? 'Allowed' : 'Not allowed'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+type ActionButtonProps = {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+};
+
+function ActionButton({ label, onPress, disabled }: ActionButtonProps) {
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      onPress={disabled ? undefined : onPress}
+      style={[styles.button, disabled && styles.buttonDisabled]}
+      activeOpacity={0.8}
+      disabled={disabled}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f4f5f7',
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#555',
+  },
+  error: {
+    color: '#b00020',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOpacity: 0.04,
+    shadowRadius: 6,
+    elevation: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  childRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  childName: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  avatar: {
+    fontSize: 20,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+    borderRadius: 10,
+    padding: 12,
+    backgroundColor: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+  },
+  chipSelected: {
+    backgroundColor: '#e6f9ff',
+    borderColor: '#00a8c7',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#b00020',
+    fontWeight: '600',
+  },
+  button: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#1d3d47',
+  },
+  buttonDisabled: {
+    backgroundColor: '#9fb2b9',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { SafeAreaView, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+
+import { getFirebaseAuth } from '@/lib/firebase';
+import {
+  deleteSavedStarter,
+  getSavedStarters,
+  maxStarterCharacters,
+  saveStarter,
+  storyStarters,
+  type StarterEntry,
+} from '@/lib/story-starter';
+
+export default function StartersScreen() {
+  const auth = getFirebaseAuth();
+  const [user, setUser] = useState<User | null>(null);
+  const [starters, setStarters] = useState<StarterEntry[]>([]);
+  const [titleInput, setTitleInput] = useState('');
+  const [openingInput, setOpeningInput] = useState('');
+  const [settingInput, setSettingInput] = useState('');
+  const [charactersInput, setCharactersInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsub = onAuthStateChanged(auth, setUser);
+    return () => unsub();
+  }, [auth]);
+
+  useEffect(() => {
+    if (!user) return;
+    getSavedStarters(user.uid)
+      .then(setStarters)
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load your starters.')
+      );
+  }, [user]);
+
+  const handleSave = async () => {
+    if (!user || !openingInput.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const starter = await saveStarter(user.uid, {
+        title: titleInput,
+        opening: openingInput,
+        setting: settingInput,
+        characters: charactersInput.split(','),
+      });
+      setStarters((current) => [...current, starter]);
+      setTitleInput('');
+      setOpeningInput('');
+      setSettingInput('');
+      setCharactersInput('');
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not save the starter.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (starter: StarterEntry) => {
+    if (!user) return;
+    setError(null);
+    try {
+      await deleteSavedStarter(user.uid, starter.id);
+      setStarters((current) => current.filter((entry) => entry.id !== starter.id));
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not delete the starter.');
+    }
+  };
+
+  if (!user) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Story starters</Text>
+          <Text style={styles.subtitle}>Sign in on the Auth tab to save your own starters.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={styles.title}>Story starters</Text>
+        <Text style={styles.subtitle}>
+          Write your own openings to reuse. Pick one under New story on the Stories tab, or in a story&apos;s settings
+          before the first word.
+        </Text>
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Your starters</Text>
+          {starters.map((starter) => (
+            <View key={starter.id} style={styles.starterRow}>
+              <View style={styles.starterText}>
+                <Text style={styles.starterTitle}>{starter.title}</Text>
+                <Text style={styles.opening}>{starter.opening}</Text>
+              </View>
+              <TouchableOpacity accessibilityRole="button" onPress={() => handleDelete(starter)}>
+                <Text style={styles.removeText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          {!starters.length && (
+            <Text style={styles.hint}>
+              None yet. There are {storyStarters.length} built-in ones to pick from meanwhile.
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>New starter</Text>
+          <TextInput value={titleInput} onChangeText={setTitleInput} placeholder="Name it" style={styles.input} />
+          <TextInput
+            value={openingInput}
+            onChangeText={setOpeningInput}
+            placeholder="Opening line, e.g. The door to the attic was humming."
+            style={styles.input}
+            multiline
+          />
+          <TextInput
+            value={settingInput}
+            onChangeText={setSettingInput}
+            placeholder="Where it happens (optional)"
+            style={styles.input}
+          />
+          <TextInput
+            value={charactersInput}
+            onChangeText={setCharactersInput}
+            placeholder={`Characters, separated by commas (up to ${maxStarterCharacters})`}
+            style={styles.input}
+          />
+          <ActionButton
+            label={saving ? 'Saving…' : 'Save starter'}
+            onPress={handleSave}
+            disabled={saving || !openingInput.trim()}
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+type ActionButtonProps = {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+};
+
+function ActionButton({ label, onPress, disabled }: ActionButtonProps) {
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      onPress={disabled ? undefined : onPress}
+      style={[styles.button, disabled && styles.buttonDisabled]}
+      activeOpacity={0.8}
+      disabled={disabled}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f4f5f7',
+  },
+  container: {
+    padding: 24,
+    gap: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    color: '#555',
+  },
+  error: {
+    color: '#b00020',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOpacity: 0.04,
+    shadowRadius: 6,
+    elevation: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  starterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  starterText: {
+    flex: 1,
+    gap: 2,
+  },
+  starterTitle: {
+    fontWeight: '600',
+  },
+  opening: {
+    fontStyle: 'italic',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+    borderRadius: 10,
+    padding: 12,
+    backgroundColor: '#fff',
+  },
+  removeText: {
+    color: '#b00020',
+    fontWeight: '600',
+  },
+  button: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: '#1d3d47',
+  },
+  buttonDisabled: {
+    backgroundColor: '#9fb2b9',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -1,40 +1,140 @@
-import { useEffect, useMemo, useState } from 'react';
-import {
-  SafeAreaView,
-  ScrollView,
-  StyleSheet,
-  Text,
-  TextInput,
-  TouchableOpacity,
-  View,
-} from 'react-native';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FlatList, SafeAreaView, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { onAuthStateChanged, type User } from 'firebase/auth';
-import { useLocalSearchParams } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 
+import { ArchiveCard, type StoryReveal } from '@/components/story/archive-card';
+import { ActionButton, Card, Chip, storyStyles } from '@/components/story/card';
+import { FlaggedWordsCard } from '@/components/story/flagged-words-card';
+import { HandOffModal } from '@/components/story/hand-off-modal';
+import { JoinForm } from '@/components/story/join-form';
+import { JoinRequestsCard } from '@/components/story/join-requests-card';
+import { LobbyCard } from '@/components/story/lobby-card';
+import { PlayersCard } from '@/components/story/players-card';
+import { SettingsCard } from '@/components/story/settings-card';
 import {
-  addPlayerToSession,
   addWordToSession,
-  ensureSessionExists,
+  allowWord,
+  canActFor,
+  endSession,
+  endSessionIfDue,
+  finishSessionStory,
+  getAllStoryWords,
+  getAllowedWords,
+  getArchivedStories,
+  getStoryWords,
+  getTurnDeadline,
+  PrivateStoryError,
+  passTurn,
   resetSessionStory,
+  skipOverdueTurn,
+  startSession,
+  StoryTurnError,
+  subscribeToJoinRequest,
+  subscribeToJoinRequests,
   subscribeToSession,
+  type ArchivedStory,
+  type FlaggedWord,
+  type JoinPolicy,
+  type JoinRequest,
   type Player,
   type StorySessionState,
+  type StoryStatus,
+  type StoryWord,
 } from '@/lib/story-session';
+import { defaultContributionMode, validateContribution, type ContributionMode } from '@/lib/contribution-mode';
+import {
+  defaultParentalSettings,
+  getChildPlayerId,
+  getChildProfiles,
+  getParentalSettings,
+  isChildPlayerId,
+  type ChildProfile,
+} from '@/lib/child-profile';
+import {
+  blockedWordMessage,
+  findBlockedWords,
+  stricterContentFilter,
+  type ContentFilterLevel,
+} from '@/lib/content-filter';
+import { describeUnknownWords, findUnknownWords } from '@/lib/dictionary';
+import { getFamiliesForUser, type Family } from '@/lib/family';
 import { getFirebaseAuth } from '@/lib/firebase';
+import { isInviteToken } from '@/lib/invite-link';
+import {
+  endSentenceToken,
+  endsSentence,
+  formatStory,
+  formatStoryText,
+  newParagraphToken,
+  type FormattedToken,
+} from '@/lib/story-format';
+import { getSavedStarters, type StarterEntry, type StoryStarter } from '@/lib/story-starter';
+import { isPermissionDenied } from '@/lib/story-store';
+import { blankExample, describeBlank, fillTemplate, getBlanks, type StoryTemplate } from '@/lib/story-template';
+import { describePartOfSpeech, suggestWords } from '@/lib/word-bank';
 
 export default function StoryDetailScreen() {
-  const params = useLocalSearchParams<{ id?: string | string[] }>();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ id?: string | string[]; invite?: string | string[] }>();
   const sessionIdParam = Array.isArray(params.id) ? params.id[0] : params.id;
   const sessionId = sessionIdParam ?? '';
+  // Set when the screen was opened from an invite link.
+  const inviteParamValue = Array.isArray(params.invite) ? params.invite[0] : params.invite;
+  const inviteToken = inviteParamValue && isInviteToken(inviteParamValue) ? inviteParamValue : null;
 
+  const [status, setStatus] = useState<StoryStatus>('playing');
+  const [readyPlayerIds, setReadyPlayerIds] = useState<string[]>([]);
+  const [targetWordCount, setTargetWordCount] = useState<number | null>(null);
+  const [endsAt, setEndsAt] = useState<number | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
   const [activePlayerIndex, setActivePlayerIndex] = useState(0);
-  const [storyWords, setStoryWords] = useState<string[]>([]);
+  const [turnNumber, setTurnNumber] = useState(0);
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [coHostIds, setCoHostIds] = useState<string[]>([]);
+  const [turnTimeLimitMs, setTurnTimeLimitMs] = useState<number | null>(null);
+  const [turnStartedAt, setTurnStartedAt] = useState<number | null>(null);
+  const [contributionMode, setContributionModeState] = useState<ContributionMode>(defaultContributionMode);
+  const [now, setNow] = useState(() => Date.now());
+  const [roundNumber, setRoundNumber] = useState(1);
+  const [roundId, setRoundId] = useState<string | null>(null);
+  const [joinPolicy, setJoinPolicyState] = useState<JoinPolicy>('approval');
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [ownJoinRequest, setOwnJoinRequest] = useState<JoinRequest | null>(null);
+  const [familyId, setFamilyId] = useState<string | null>(null);
+  const [families, setFamilies] = useState<Family[]>([]);
+  const [starter, setStarter] = useState<StoryStarter | null>(null);
+  const [template, setTemplate] = useState<StoryTemplate | null>(null);
+  const [visibleWordCount, setVisibleWordCount] = useState<number | null>(null);
+  const [reveal, setReveal] = useState<StoryReveal | null>(null);
+  const [savedStarters, setSavedStarters] = useState<StarterEntry[]>([]);
+  const [children, setChildren] = useState<ChildProfile[]>([]);
+  const [parentalFilter, setParentalFilter] = useState<ContentFilterLevel>(defaultParentalSettings.contentFilter);
+  const [contentFilter, setContentFilterState] = useState<ContentFilterLevel>('family');
+  const [reviewFlaggedWords, setReviewFlaggedWords] = useState(false);
+  const [flaggedWords, setFlaggedWords] = useState<FlaggedWord[]>([]);
+  const [dictionaryCheck, setDictionaryCheckState] = useState(false);
+  const [allowedWords, setAllowedWords] = useState<string[]>([]);
+  const [showIdeas, setShowIdeas] = useState(false);
+  const [archivedStories, setArchivedStories] = useState<ArchivedStory[]>([]);
+  const [finishTitle, setFinishTitle] = useState('');
+  const [finishing, setFinishing] = useState(false);
+  const [revealedTurn, setRevealedTurn] = useState<number | null>(null);
+  const [storyWords, setStoryWords] = useState<StoryWord[]>([]);
+  const [earlierWords, setEarlierWords] = useState<StoryWord[]>([]);
+  const [wordCount, setWordCount] = useState(0);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [selectedWordIndex, setSelectedWordIndex] = useState<number | null>(null);
   const [wordInput, setWordInput] = useState('');
-  const [newPlayerInput, setNewPlayerInput] = useState('');
   const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isPrivate, setIsPrivate] = useState(false);
+  // Bumped to subscribe again once the user is let into a story they couldn't see.
+  const [sessionKey, setSessionKey] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const skipRequest = useRef<ClockRequest | null>(null);
+  const endRequest = useRef<ClockRequest | null>(null);
 
   const auth = getFirebaseAuth();
 
@@ -46,6 +146,8 @@ export default function StoryDetailScreen() {
     return () => unsubscribeAuth();
   }, [auth]);
 
+  const viewerId = user?.uid ?? null;
+
   useEffect(() => {
     if (!sessionId) {
       setError('No story id provided.');
@@ -53,87 +155,413 @@ export default function StoryDetailScreen() {
     }
 
     let unsubscribe: (() => void) | undefined;
-    let isMounted = true;
-
-    const bootstrap = async () => {
-      try {
-        await ensureSessionExists(sessionId, { players: [], storyWords: [], activePlayerIndex: 0 });
-
-        if (!isMounted) return;
-
-        unsubscribe = subscribeToSession(
-          sessionId,
-          (session: StorySessionState) => {
-            setPlayers(session.players);
-            setStoryWords(session.storyWords);
-            setActivePlayerIndex(session.activePlayerIndex);
-          },
-          (firebaseError) => {
+
+    try {
+      unsubscribe = subscribeToSession(
+        sessionId,
+        (session: StorySessionState | null) => {
+          setLoading(false);
+          setIsPrivate(false);
+          setNotFound(!session);
+          if (!session) return;
+
+          setStatus(session.status);
+          setReadyPlayerIds(session.readyPlayerIds);
+          setTargetWordCount(session.targetWordCount);
+          setEndsAt(session.endsAt);
+          setPlayers(session.players);
+          setStoryWords(session.storyWords);
+          setWordCount(session.wordCount);
+          setActivePlayerIndex(session.activePlayerIndex);
+          setTurnNumber(session.turnNumber);
+          setOwnerId(session.ownerId);
+          setCoHostIds(session.coHostIds);
+          setTurnTimeLimitMs(session.turnTimeLimitMs);
+          setTurnStartedAt(session.turnStartedAt);
+          setContributionModeState(session.contributionMode);
+          setRoundNumber(session.roundNumber);
+          setRoundId(session.roundId);
+          setJoinPolicyState(session.joinPolicy);
+          setFamilyId(session.familyId);
+          setStarter(session.starter);
+          setTemplate(session.template);
+          setVisibleWordCount(session.visibleWordCount);
+          setContentFilterState(session.contentFilter);
+          setReviewFlaggedWords(session.reviewFlaggedWords);
+          setFlaggedWords(session.flaggedWords);
+          setDictionaryCheckState(session.dictionaryCheck);
+          setAllowedWords(session.allowedWords);
+        },
+        (firebaseError) => {
+          setLoading(false);
+          if (firebaseError instanceof PrivateStoryError) {
+            setIsPrivate(true);
+          } else {
             setError(firebaseError.message);
           }
-        );
-      } catch (firebaseError) {
-        if (firebaseError instanceof Error) {
-          setError(firebaseError.message);
-        } else {
-          setError('Could not connect to Firebase. Check your config.');
-        }
-      } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
+        },
+        // Hidden stories only stream their words to hosts, so the subscription needs the viewer.
+        { viewerId }
+      );
+    } catch (firebaseError) {
+      setLoading(false);
+      if (firebaseError instanceof Error) {
+        setError(firebaseError.message);
+      } else {
+        setError('Could not connect to Firebase. Check your config.');
       }
-    };
-
-    bootstrap();
+    }
 
     return () => {
-      isMounted = false;
       unsubscribe?.();
     };
-  }, [sessionId]);
+  }, [sessionId, viewerId, sessionKey]);
+
+  useEffect(() => {
+    if (!sessionId || !user) {
+      setOwnJoinRequest(null);
+      return;
+    }
+    let waiting = false;
+    return subscribeToJoinRequest(
+      sessionId,
+      user.uid,
+      (joinRequest) => {
+        setOwnJoinRequest(joinRequest);
+        // The request was answered; if a host let us in, the story can be read now.
+        if (waiting && !joinRequest) setSessionKey((key) => key + 1);
+        waiting = Boolean(joinRequest);
+      },
+      () => setOwnJoinRequest(null)
+    );
+  }, [sessionId, user]);
+
+  useEffect(() => {
+    if (!user) {
+      setFamilies([]);
+      setChildren([]);
+      setSavedStarters([]);
+      return;
+    }
+    getFamiliesForUser(user.uid)
+      .then(setFamilies)
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load your families.')
+      );
+    getSavedStarters(user.uid)
+      .then(setSavedStarters)
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load your starters.')
+      );
+    if (user.isAnonymous) return;
+    Promise.all([getChildProfiles(user.uid), getParentalSettings(user.uid)])
+      .then(([nextChildren, settings]) => {
+        setChildren(nextChildren);
+        setParentalFilter(settings.contentFilter);
+      })
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load your kids.')
+      );
+  }, [user]);
+
+  useEffect(() => {
+    if (!sessionId || loading || isPrivate) return;
+    getArchivedStories(sessionId)
+      .then(setArchivedStories)
+      .catch((firebaseError) =>
+        setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load previous stories.')
+      );
+  }, [sessionId, roundNumber, loading, isPrivate]);
+
+  const turnDeadline = getTurnDeadline({ turnTimeLimitMs, turnStartedAt });
+
+  const isPlaying = status === 'playing';
+  const hasClock = isPlaying && (turnDeadline !== null || endsAt !== null);
+
+  useEffect(() => {
+    if (!hasClock) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasClock]);
+
+  useEffect(() => {
+    if (!isPlaying || endsAt === null || now < endsAt || !isClockRequestDue(endRequest.current, endsAt, now)) return;
+    endRequest.current = { key: endsAt, retryAt: Infinity };
+    // Same race as skipping a turn: the first client to notice ends the story for everyone.
+    endSessionIfDue(sessionId)
+      .then((ended) => {
+        if (!ended) endRequest.current = retryClockRequest(endsAt);
+      })
+      .catch(() => {
+        endRequest.current = retryClockRequest(endsAt);
+      });
+  }, [endsAt, isPlaying, now, sessionId]);
+
+  useEffect(() => {
+    if (
+      !isPlaying ||
+      turnDeadline === null ||
+      now < turnDeadline ||
+      !isClockRequestDue(skipRequest.current, turnNumber, now)
+    ) {
+      return;
+    }
+    skipRequest.current = { key: turnNumber, retryAt: Infinity };
+    // Every open client races to skip; the turn check means only one of them wins. The
+    // others' failures are expected, so they are not shown. Once the turn moves on, nobody
+    // asks again.
+    skipOverdueTurn(sessionId, turnNumber)
+      .then((skipped) => {
+        if (!skipped) skipRequest.current = retryClockRequest(turnNumber);
+      })
+      .catch(() => {
+        skipRequest.current = retryClockRequest(turnNumber);
+      });
+  }, [isPlaying, now, sessionId, turnDeadline, turnNumber]);
 
   const hasPlayers = players.length > 0;
   const activePlayer = hasPlayers ? players[activePlayerIndex] : null;
-  const isActivePlayer = user && activePlayer && activePlayer.id === user.uid;
-  const sanitizedWord = wordInput.trim();
-  const isSingleWord = Boolean(sanitizedWord) && !/\s/.test(sanitizedWord);
-  const wordValidationMessage =
-    wordInput.length && !isSingleWord ? 'Please enter only one word (no spaces).' : null;
-  const canSubmitWord = hasPlayers && isSingleWord && Boolean(isActivePlayer);
-  const canAddPlayer = Boolean(user);
-
-  const storyText = useMemo(
-    () => (storyWords.length ? `${storyWords.join(' ')}.` : 'No story yet. Add the first word!'),
-    [storyWords]
+  // True for your own turns and for pass-and-play players on this device.
+  const isActivePlayer = Boolean(user && canActFor(activePlayer ?? undefined, user.uid));
+  const currentTurn =
+    user && activePlayer ? { playerId: activePlayer.id, actorId: user.uid, expectedTurn: turnNumber } : null;
+  const managesLocalPlayers = Boolean(user && players.some((player) => player.managedBy === user.uid));
+  const isSingleWordMode = contributionMode.kind === 'word';
+  const contributionError = validateContribution(wordInput, contributionMode);
+  // Your kids' words also get your parental filter, as addWordToSession does.
+  const wordFilter =
+    activePlayer && isChildPlayerId(activePlayer.id)
+      ? stricterContentFilter(contentFilter, parentalFilter)
+      : contentFilter;
+  const isWordBlocked = findBlockedWords(wordInput, wordFilter).length > 0;
+  const unknownWords = dictionaryCheck ? findUnknownWords(wordInput, getAllowedWords({ allowedWords, players })) : [];
+  const wordValidationMessage = wordInput.trim()
+    ? contributionError ??
+      (isWordBlocked && !reviewFlaggedWords ? blockedWordMessage : null) ??
+      (unknownWords.length ? describeUnknownWords(unknownWords) : null)
+    : null;
+  const isWordHeld = flaggedWords.some((flagged) => flagged.turn === turnNumber);
+  const canSubmitWord =
+    isPlaying &&
+    hasPlayers &&
+    !contributionError &&
+    !(isWordBlocked && !reviewFlaggedWords) &&
+    !unknownWords.length &&
+    !isWordHeld &&
+    isActivePlayer;
+  const isHost = Boolean(user && (ownerId === user.uid || coHostIds.includes(user.uid)));
+  const isPlayer = Boolean(user && players.some((player) => player.id === user.uid));
+  const inOwnFamily = familyId !== null && families.some((family) => family.id === familyId);
+  // Kids who could still join: they need the parent in the story, or a family story.
+  const addableChildren =
+    user && (isPlayer || inOwnFamily) && status !== 'finished'
+      ? children.filter((child) => !players.some((player) => player.id === getChildPlayerId(user.uid, child.id)))
+      : [];
+  const isPending = ownJoinRequest !== null;
+  // Players sharing a device shouldn't see each other's screen, so each turn starts hidden.
+  const showHandOff = isPlaying && managesLocalPlayers && isActivePlayer && revealedTurn !== turnNumber;
+
+  useEffect(() => {
+    if (!isHost) {
+      setJoinRequests([]);
+      return;
+    }
+    return subscribeToJoinRequests(sessionId, setJoinRequests, (firebaseError) => setError(firebaseError.message));
+  }, [isHost, sessionId]);
+
+  const playerNames = useMemo(
+    () => new Map(players.map((player) => [player.id, player.name])),
+    [players]
   );
+  const loadedWords = useMemo(() => {
+    // Pages fetched before a reset can overlap the new live words, so keep only older ones.
+    const firstLiveIndex = storyWords[0]?.index ?? wordCount;
+    return [...earlierWords.filter((entry) => entry.index < firstLiveIndex), ...storyWords];
+  }, [earlierWords, storyWords, wordCount]);
+  const firstLoadedIndex = loadedWords[0]?.index ?? 0;
+  // A fill-in round keeps its blanks secret; a hidden story shows only the last few words.
+  const isFillInPending = template !== null && status !== 'finished';
+  const isSecretRound = visibleWordCount !== null && status !== 'finished';
+  const hidesStory = isFillInPending || isSecretRound;
+  // While hidden, only the active player sees the last few words; at the end they're revealed one by one.
+  const isRevealing = reveal !== null && reveal.count < reveal.words.length;
+  // The reveal holds the whole round, so it shows here in place of the latest loaded words.
+  const revealsRound = reveal !== null && reveal.roundNumber === roundNumber && status === 'finished';
+  const shownWords = useMemo(() => {
+    if (revealsRound) return reveal.words.slice(0, reveal.count);
+    if (isSecretRound) return isActivePlayer && visibleWordCount ? loadedWords.slice(-visibleWordCount) : [];
+    return loadedWords;
+  }, [revealsRound, reveal, isSecretRound, isActivePlayer, visibleWordCount, loadedWords]);
+  const wordChunks = useMemo(() => chunkStory(shownWords, (shownWords[0]?.index ?? 0) > 0), [shownWords]);
+
+  useEffect(() => {
+    // A hidden story's round just ended (or was already over when the screen opened).
+    if (visibleWordCount === null || status !== 'finished') return;
+    let cancelled = false;
+    getAllStoryWords(sessionId, roundId)
+      .then((words) => {
+        if (!cancelled) setReveal({ roundNumber, words, count: 0 });
+      })
+      .catch((firebaseError) => {
+        if (!cancelled) setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load the story.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, roundId, roundNumber, visibleWordCount, status]);
+
+  useEffect(() => {
+    if (!isRevealing) return;
+    const timer = setTimeout(
+      () => setReveal((current) => current && { ...current, count: current.count + 1 }),
+      revealIntervalMs
+    );
+    return () => clearTimeout(timer);
+  }, [isRevealing, reveal]);
+  const lastWord = loadedWords[loadedWords.length - 1]?.word;
+  const canEndSentence = Boolean(lastWord) && lastWord !== newParagraphToken && !endsSentence(lastWord ?? '');
+  const canStartParagraph = Boolean(lastWord) && lastWord !== newParagraphToken;
+  const selectedWord = loadedWords.find((entry) => entry.index === selectedWordIndex);
+  // Ideas follow the last word typed, or start a sentence after a break.
+  const previousWord =
+    lastWord && lastWord !== endSentenceToken && lastWord !== newParagraphToken && !endsSentence(lastWord)
+      ? lastWord.trim().split(/\s+/).pop() ?? null
+      : null;
+  // Your kids get ideas for their age; everyone else gets the full bank.
+  const activeChild =
+    user && activePlayer
+      ? children.find((child) => getChildPlayerId(user.uid, child.id) === activePlayer.id)
+      : undefined;
+  // Fill-in stories stay hidden until the last blank is filled.
+  const blanks = useMemo(() => (template ? getBlanks(template.text) : []), [template]);
+  const currentBlank = template ? blanks[wordCount] : undefined;
+  const filledTemplate = useMemo(() => {
+    if (!template || isFillInPending) return null;
+    const answers: string[] = [];
+    loadedWords.forEach((entry) => {
+      answers[entry.index] = entry.word;
+    });
+    return fillTemplate(template.text, answers);
+  }, [template, isFillInPending, loadedWords]);
+  const wordIdeas = useMemo(
+    () => suggestWords({ previousWord, ageBand: activeChild?.ageBand ?? null, seed: turnNumber }),
+    [previousWord, activeChild?.ageBand, turnNumber]
+  );
+
+  const handleLoadEarlier = async () => {
+    if (loadingEarlier || firstLoadedIndex === 0) return;
+    setLoadingEarlier(true);
+    try {
+      const page = await getStoryWords(sessionId, roundId, firstLoadedIndex);
+      setEarlierWords((current) => [...page, ...current.filter((entry) => entry.index >= firstLoadedIndex)]);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not load earlier words.');
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
 
   const handleAddWord = () => {
-    if (!canSubmitWord) return;
+    if (!canSubmitWord || !currentTurn) return;
 
-    const nextWord = sanitizedWord;
+    const nextWord = wordInput;
     setWordInput('');
-    addWordToSession(sessionId, nextWord).catch((firebaseError) =>
-      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not add word.')
+    setError(null);
+    addWordToSession(sessionId, nextWord, currentTurn).catch((firebaseError) => {
+      setWordInput(nextWord);
+      setError(describeWordError(firebaseError));
+    });
+  };
+
+  const handleAddBreak = (token: string) => {
+    if (!currentTurn || !isActivePlayer || !isPlaying || isWordHeld) return;
+    setError(null);
+    addWordToSession(sessionId, token, currentTurn).catch((firebaseError) =>
+      setError(describeWordError(firebaseError))
     );
   };
 
-  const handleAddPlayer = () => {
-    if (!user || !canAddPlayer) return;
-    const name = newPlayerInput.trim() || user.displayName || user.email || 'Player';
-    setNewPlayerInput('');
+  const handleShare = async () => {
+    try {
+      const earlier =
+        firstLoadedIndex > 0 ? await getStoryWords(sessionId, roundId, firstLoadedIndex, firstLoadedIndex) : [];
+      const words = [...earlier, ...loadedWords].map((entry) => entry.word);
+      const message = template ? fillTemplate(template.text, words) : formatStoryText(words);
+      await Share.share({ title: `Story ${sessionId}`, message });
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not share the story.');
+    }
+  };
+
+  const handleShowAll = () => {
+    setReveal((current) => current && { ...current, count: current.words.length });
+  };
 
-    addPlayerToSession(sessionId, { id: user.uid, name }).catch((firebaseError) =>
-      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not add player.')
+  const handlePass = () => {
+    if (!currentTurn || !isActivePlayer || !isPlaying) return;
+    setError(null);
+    passTurn(sessionId, currentTurn).catch((firebaseError) =>
+      setError(describeWordError(firebaseError))
     );
   };
 
+  const handlePickIdea = (idea: string) => {
+    setWordInput((current) => (isSingleWordMode || !current.trim() ? idea : `${current.trimEnd()} ${idea}`));
+  };
+
+  const handleAllowWord = async (word: string) => {
+    if (!user || !word.trim()) return;
+    setError(null);
+    try {
+      await allowWord(sessionId, user.uid, word);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not allow the word.');
+    }
+  };
+
   const handleResetStory = () => {
-    resetSessionStory(sessionId).catch((firebaseError) =>
+    if (!user) return;
+    resetSessionStory(sessionId, user.uid).catch((firebaseError) =>
       setError(firebaseError instanceof Error ? firebaseError.message : 'Could not reset story.')
     );
   };
 
+  const handleStart = () => {
+    if (!user) return;
+    setError(null);
+    endRequest.current = null;
+    startSession(sessionId, user.uid).catch((firebaseError) =>
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not start the story.')
+    );
+  };
+
+  const handleEndNow = () => {
+    if (!user) return;
+    endSession(sessionId, user.uid).catch((firebaseError) =>
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not end the story.')
+    );
+  };
+
+  // Outsiders couldn't see the story until they joined.
+  const handleJoined = () => {
+    if (isPrivate) setSessionKey((key) => key + 1);
+  };
+
+  const handleFinishStory = async () => {
+    if (!user || finishing) return;
+    setFinishing(true);
+    setError(null);
+    try {
+      await finishSessionStory(sessionId, user.uid, finishTitle);
+      setFinishTitle('');
+      setEarlierWords([]);
+    } catch (firebaseError) {
+      setError(firebaseError instanceof Error ? firebaseError.message : 'Could not finish the story.');
+    } finally {
+      setFinishing(false);
+    }
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.safeArea}>
@@ -144,96 +572,471 @@ export default function StoryDetailScreen() {
     );
   }
 
+  if (notFound) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={[styles.container, styles.centered]}>
+          <Text style={styles.title}>Story not found</Text>
+          <Text style={styles.subtitle}>
+            There is no story with the code {sessionId}. Check the code for typos, or start a new story from My
+            Stories.
+          </Text>
+          <ActionButton label="Find a story" onPress={() => router.replace('/discover')} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (isPrivate) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <View style={[styles.container, styles.centered]}>
+          {error && <Text style={styles.error}>{error}</Text>}
+          <Text style={styles.title}>Story: {sessionId}</Text>
+          <Text style={styles.subtitle}>
+            {inviteToken ? 'You were invited! Add your name to join.' : new PrivateStoryError().message}
+          </Text>
+          {!user ? (
+            <Text style={styles.subtitle}>Sign in on the Auth tab to join.</Text>
+          ) : (
+            <JoinForm
+              sessionId={sessionId}
+              user={user}
+              joinPolicy={joinPolicy}
+              inviteToken={inviteToken}
+              isPlayer={false}
+              isPending={isPending}
+              onJoined={handleJoined}
+              onError={setError}
+            />
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderWordChunk = ({ item: chunk }: { item: StoryChunk }) => (
+    <View style={[styles.storyChunk, chunk.startsParagraph && styles.storyParagraphStart]}>
+      <Text style={storyStyles.story}>
+        {chunk.tokens.map(({ entry, text, spaceBefore }, position) => (
+          <Text
+            key={entry.index}
+            style={[
+              { color: authorColor(entry.authorId) },
+              entry.index === selectedWordIndex && styles.storyWordSelected,
+            ]}
+            onLongPress={() => setSelectedWordIndex(entry.index)}
+            onPress={() => setSelectedWordIndex(null)}>
+            {spaceBefore && position ? ' ' : ''}
+            {text}
+          </Text>
+        ))}
+      </Text>
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.safeArea}>
-      <ScrollView contentContainerStyle={styles.container}>
-        {error && <Text style={styles.error}>{error}</Text>}
-        <Text style={styles.title}>Story: {sessionId}</Text>
-        <Text style={styles.subtitle}>Contribute words and manage players for this story.</Text>
-
-        <Card title="Story so far">
-          <Text style={styles.story}>{storyText}</Text>
-          <Text style={styles.hint}>Hint: short, unexpected words keep the tale ridiculous.</Text>
-          <ActionButton label="Reset story" onPress={handleResetStory} disabled={!storyWords.length} />
-        </Card>
-
-        <Card title="Current turn">
-          <Text style={styles.activePlayer}>{activePlayer?.name ?? 'Waiting for players'}</Text>
-          {!isActivePlayer && (
-            <Text style={styles.hint}>
-              Only the active player can add a word. Sign in as {activePlayer?.name ?? 'a player'} to continue.
+      <FlatList
+        data={template ? [] : wordChunks}
+        keyExtractor={(chunk) => String(chunk.tokens[0].entry.index)}
+        renderItem={renderWordChunk}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <View style={styles.listHeader}>
+            {error && <Text style={styles.error}>{error}</Text>}
+            <Text style={styles.title}>Story: {sessionId}</Text>
+            <Text style={styles.subtitle}>
+              Contribute words and manage players for this story. Share the join code {sessionId} to invite family.
             </Text>
-          )}
-          <TextInput
-            value={wordInput}
-            onChangeText={setWordInput}
-            placeholder="Type a single word"
-            style={styles.input}
-            autoCapitalize="none"
-            autoCorrect={false}
-            onSubmitEditing={handleAddWord}
-            editable={hasPlayers}
-          />
-          {wordValidationMessage && <Text style={styles.validationError}>{wordValidationMessage}</Text>}
-          <ActionButton label="Add word" onPress={handleAddWord} disabled={!canSubmitWord} />
-        </Card>
-
-        <Card title="Players">
-          <View style={styles.badgeRow}>
-            {players.map((player, index) => (
-              <View
-                key={`${player.id}-${index}`}
-                style={[styles.badge, index === activePlayerIndex && styles.badgeActive]}>
-                <Text style={styles.badgeText}>{player.name}</Text>
-              </View>
-            ))}
-            {!players.length && <Text>No players yet. Add a name below.</Text>}
+            {inviteToken && user && !isPlayer && (
+              <Text style={styles.subtitle}>You were invited! Add your name under Players to join.</Text>
+            )}
+            {isHost && (
+              <ActionButton label="Invite with a link or QR code" onPress={() => router.push(`/invite/${sessionId}`)} />
+            )}
+            <View style={[storyStyles.card, styles.storyCardTop]}>
+              <Text style={storyStyles.cardTitle}>Story so far</Text>
+              {starter && (
+                <View style={styles.starter}>
+                  <Text style={styles.starterTitle}>{starter.title}</Text>
+                  {Boolean(starter.setting) && <Text style={storyStyles.hint}>Where: {starter.setting}</Text>}
+                  {starter.characters.length > 0 && (
+                    <Text style={storyStyles.hint}>Who: {starter.characters.join(', ')}</Text>
+                  )}
+                  <Text style={styles.starterOpening}>{starter.opening}</Text>
+                </View>
+              )}
+              {isSecretRound && (
+                <Text style={storyStyles.hint}>
+                  {wordCount} words so far. The story is hidden until the round ends
+                  {isActivePlayer
+                    ? `; you can see the last ${visibleWordCount === 1 ? 'word' : `${visibleWordCount} words`}.`
+                    : '. Whoever has the turn sees only the last few words.'}
+                </Text>
+              )}
+              {revealsRound && isRevealing && (
+                <View style={storyStyles.buttonRow}>
+                  <Text style={styles.starterTitle}>The big reveal…</Text>
+                  <ActionButton label="Show it all" onPress={handleShowAll} />
+                </View>
+              )}
+              {firstLoadedIndex > 0 && !hidesStory && (
+                <ActionButton
+                  label={loadingEarlier ? 'Loading…' : `Load earlier words (${firstLoadedIndex} more)`}
+                  onPress={handleLoadEarlier}
+                  disabled={loadingEarlier}
+                />
+              )}
+              {template && (
+                <Text style={styles.starterTitle}>
+                  {template.title} · {wordCount} of {blanks.length} blanks filled
+                </Text>
+              )}
+              {isFillInPending && (
+                <Text style={storyStyles.hint}>The story stays secret until every blank is filled.</Text>
+              )}
+              {filledTemplate !== null && <Text style={storyStyles.story}>{filledTemplate}</Text>}
+              {!wordCount && !template && (
+                <Text style={storyStyles.story}>
+                  {status === 'lobby'
+                    ? 'No story yet. It begins once the host presses Start.'
+                    : starter
+                    ? 'Carry on from the opening line!'
+                    : 'No story yet. Add the first word!'}
+                </Text>
+              )}
+            </View>
           </View>
-          <TextInput
-            value={newPlayerInput}
-            onChangeText={setNewPlayerInput}
-            placeholder="Add new player"
-            style={styles.input}
-            onSubmitEditing={handleAddPlayer}
-          />
-          <ActionButton label="Add player" onPress={handleAddPlayer} disabled={!canAddPlayer} />
-        </Card>
-      </ScrollView>
+        }
+        ListFooterComponent={
+          <View style={styles.listFooter}>
+            <View style={[storyStyles.card, styles.storyCardBottom]}>
+              {selectedWord && (
+                <Text style={styles.wordDetail}>
+                  “{selectedWord.word}” by{' '}
+                  {(selectedWord.authorId && playerNames.get(selectedWord.authorId)) || 'an unknown author'}
+                  {selectedWord.createdAt ? `, ${new Date(selectedWord.createdAt).toLocaleString()}` : ''}
+                </Text>
+              )}
+              <Text style={storyStyles.hint}>
+                Hint: short, unexpected words keep the tale ridiculous. Long-press a word to see who wrote it.
+              </Text>
+              <ActionButton label="Share story" onPress={handleShare} disabled={!wordCount || hidesStory} />
+              {isHost && isPlaying && <ActionButton label="End story now" onPress={handleEndNow} />}
+              {isHost && status === 'finished' && (
+                <>
+                  <TextInput
+                    value={finishTitle}
+                    onChangeText={setFinishTitle}
+                    placeholder={`Title (optional, e.g. Story ${roundNumber})`}
+                    style={storyStyles.input}
+                    maxLength={80}
+                  />
+                  <ActionButton
+                    label={finishing ? 'Saving…' : 'Save and start the next round'}
+                    onPress={handleFinishStory}
+                    disabled={!wordCount || finishing}
+                  />
+                </>
+              )}
+              {isHost && status !== 'lobby' && (
+                <TouchableOpacity
+                  accessibilityRole="button"
+                  onPress={handleResetStory}
+                  disabled={!wordCount || finishing}>
+                  <Text style={storyStyles.removeText}>Start over without saving</Text>
+                </TouchableOpacity>
+              )}
+              {!isHost && (
+                <Text style={storyStyles.hint}>
+                  Only the story owner or a co-host can end, save or reset the story.
+                </Text>
+              )}
+            </View>
+
+            {status === 'lobby' && (
+              <LobbyCard
+                sessionId={sessionId}
+                userId={viewerId}
+                players={players}
+                readyPlayerIds={readyPlayerIds}
+                isPlayer={isPlayer}
+                isHost={isHost}
+                onStart={handleStart}
+                onError={setError}
+              />
+            )}
+
+            {status === 'finished' && (
+              <Card title="The end">
+                <Text style={storyStyles.hint}>
+                  This story is finished. Share it, or {isHost ? 'save it' : 'wait for the host to save it'} and start
+                  the next round with the same players.
+                </Text>
+              </Card>
+            )}
+
+            {isPlaying && (
+              <Card title="Current turn">
+                <Text style={styles.activePlayer}>{activePlayer?.name ?? 'Waiting for players'}</Text>
+                {turnDeadline !== null && hasPlayers && (
+                  <Text style={[styles.countdown, now >= turnDeadline && styles.countdownOverdue]}>
+                    {now >= turnDeadline
+                      ? "Time's up! Skipping to the next player…"
+                      : `${formatTimeLeft(turnDeadline - now)} left`}
+                  </Text>
+                )}
+                {!isActivePlayer && (
+                  <Text style={storyStyles.hint}>
+                    Only the active player can add a word. Sign in as {activePlayer?.name ?? 'a player'} to continue.
+                  </Text>
+                )}
+                {currentBlank && isActivePlayer && (
+                  <Text style={styles.blankPrompt}>
+                    Blank {wordCount + 1} of {blanks.length}: {describeBlank(currentBlank)}, like “
+                    {blankExample(currentBlank)}”
+                  </Text>
+                )}
+                <TextInput
+                  value={wordInput}
+                  onChangeText={setWordInput}
+                  placeholder={currentBlank ? describeBlank(currentBlank) : contributionPlaceholder(contributionMode)}
+                  style={storyStyles.input}
+                  autoCapitalize={isSingleWordMode ? 'none' : 'sentences'}
+                  autoCorrect={!isSingleWordMode}
+                  multiline={contributionMode.kind === 'paragraph'}
+                  onSubmitEditing={handleAddWord}
+                  editable={hasPlayers}
+                />
+                {wordValidationMessage && <Text style={styles.validationError}>{wordValidationMessage}</Text>}
+                {isWordBlocked && reviewFlaggedWords && !isWordHeld && (
+                  <Text style={storyStyles.hint}>A host will check this before it goes in the story.</Text>
+                )}
+                {isWordHeld && <Text style={storyStyles.hint}>Waiting for a host to check the last word…</Text>}
+                {isHost && !contributionError && unknownWords.length > 0 && (
+                  <View style={storyStyles.buttonRow}>
+                    {unknownWords.map((word) => (
+                      <ActionButton key={word} label={`Allow “${word}”`} onPress={() => handleAllowWord(word)} />
+                    ))}
+                  </View>
+                )}
+                {isActivePlayer && !template && (
+                  <TouchableOpacity accessibilityRole="button" onPress={() => setShowIdeas((current) => !current)}>
+                    <Text style={storyStyles.chipText}>{showIdeas ? 'Hide ideas' : 'Need an idea?'}</Text>
+                  </TouchableOpacity>
+                )}
+                {isActivePlayer &&
+                  !template &&
+                  showIdeas &&
+                  wordIdeas.map((group) => (
+                    <View key={group.partOfSpeech} style={storyStyles.settingsRow}>
+                      <Text style={storyStyles.hint}>{describePartOfSpeech(group.partOfSpeech)}:</Text>
+                      {group.words.map((idea) => (
+                        <Chip key={idea} label={idea} onPress={() => handlePickIdea(idea)} />
+                      ))}
+                    </View>
+                  ))}
+                <ActionButton
+                  label={isSingleWordMode ? 'Add word' : 'Add to story'}
+                  onPress={handleAddWord}
+                  disabled={!canSubmitWord}
+                />
+                {isActivePlayer && (
+                  <View style={storyStyles.buttonRow}>
+                    {!template && (
+                      <>
+                        <ActionButton
+                          label="End sentence"
+                          onPress={() => handleAddBreak(endSentenceToken)}
+                          disabled={!canEndSentence}
+                        />
+                        <ActionButton
+                          label="New paragraph"
+                          onPress={() => handleAddBreak(newParagraphToken)}
+                          disabled={!canStartParagraph}
+                        />
+                      </>
+                    )}
+                    <ActionButton label="Pass" onPress={handlePass} />
+                  </View>
+                )}
+              </Card>
+            )}
+
+            {isHost && status !== 'finished' && (
+              <SettingsCard
+                sessionId={sessionId}
+                userId={viewerId}
+                status={status}
+                wordCount={wordCount}
+                template={template}
+                visibleWordCount={visibleWordCount}
+                targetWordCount={targetWordCount}
+                endsAt={endsAt}
+                turnTimeLimitMs={turnTimeLimitMs}
+                contributionMode={contributionMode}
+                joinPolicy={joinPolicy}
+                contentFilter={contentFilter}
+                reviewFlaggedWords={reviewFlaggedWords}
+                starter={starter}
+                dictionaryCheck={dictionaryCheck}
+                allowedWords={allowedWords}
+                familyId={familyId}
+                savedStarters={savedStarters}
+                families={families}
+                onError={setError}
+              />
+            )}
+
+            {isHost && flaggedWords.length > 0 && (
+              <FlaggedWordsCard
+                sessionId={sessionId}
+                userId={viewerId}
+                flaggedWords={flaggedWords}
+                players={players}
+                isPlaying={isPlaying}
+                turnNumber={turnNumber}
+                onError={setError}
+              />
+            )}
+
+            {isHost && joinRequests.length > 0 && (
+              <JoinRequestsCard
+                sessionId={sessionId}
+                userId={viewerId}
+                joinRequests={joinRequests}
+                onError={setError}
+              />
+            )}
+
+            <PlayersCard
+              sessionId={sessionId}
+              user={user}
+              players={players}
+              status={status}
+              activePlayerIndex={activePlayerIndex}
+              ownerId={ownerId}
+              coHostIds={coHostIds}
+              readyPlayerIds={readyPlayerIds}
+              joinPolicy={joinPolicy}
+              inviteToken={inviteToken}
+              isHost={isHost}
+              isPlayer={isPlayer}
+              isPending={isPending}
+              addableChildren={addableChildren}
+              onJoined={handleJoined}
+              onError={setError}
+            />
+
+            {archivedStories.length > 0 && (
+              <ArchiveCard
+                sessionId={sessionId}
+                archivedStories={archivedStories}
+                reveal={reveal}
+                onRevealChange={setReveal}
+                onError={setError}
+              />
+            )}
+          </View>
+        }
+      />
+      <HandOffModal
+        visible={showHandOff}
+        playerName={activePlayer?.name ?? null}
+        onReady={() => setRevealedTurn(turnNumber)}
+      />
     </SafeAreaView>
   );
 }
 
-type CardProps = {
-  title: string;
-  children: React.ReactNode;
-};
+function contributionPlaceholder(mode: ContributionMode) {
+  switch (mode.kind) {
+    case 'word':
+      return 'Type a single word';
+    case 'words':
+      return `Type up to ${mode.maxWords} words`;
+    case 'sentence':
+      return 'Type one sentence';
+    case 'paragraph':
+      return 'Write the next paragraph';
+  }
+}
 
-function Card({ title, children }: CardProps) {
-  return (
-    <View style={styles.card}>
-      <Text style={styles.cardTitle}>{title}</Text>
-      {children}
-    </View>
-  );
+function formatTimeLeft(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${minutes}m`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
 }
 
-type ActionButtonProps = {
-  label: string;
-  onPress: () => void;
-  disabled?: boolean;
+type StoryChunk = {
+  tokens: FormattedToken<StoryWord>[];
+  startsParagraph: boolean;
 };
 
-function ActionButton({ label, onPress, disabled }: ActionButtonProps) {
-  return (
-    <TouchableOpacity
-      accessibilityRole="button"
-      onPress={disabled ? undefined : onPress}
-      style={[styles.button, disabled && styles.buttonDisabled]}
-      activeOpacity={0.8}
-      disabled={disabled}>
-      <Text style={styles.buttonText}>{label}</Text>
-    </TouchableOpacity>
-  );
+// Paragraphs render in fixed-size pieces so the list can virtualize long stories.
+const wordsPerChunk = 60;
+
+const revealIntervalMs = 250;
+
+// A turn skip or story end this screen asked for. `key` is the turn number or end date it
+// was for, and `retryAt` is when to ask again (never while a request is in flight or done).
+type ClockRequest = { key: number; retryAt: number };
+
+// The rules check deadlines against the server's clock, which may be a little behind this
+// device's. A request they turned down is tried again after this long.
+const clockRetryMs = 5000;
+
+function isClockRequestDue(request: ClockRequest | null, key: number, now: number) {
+  return !request || request.key !== key || now >= request.retryAt;
+}
+
+function retryClockRequest(key: number): ClockRequest {
+  return { key, retryAt: Date.now() + clockRetryMs };
+}
+
+function chunkStory(words: StoryWord[], partial: boolean) {
+  const chunks: StoryChunk[] = [];
+  formatStory(words, (entry) => entry.word, { partial }).forEach((paragraph, paragraphIndex) => {
+    for (let start = 0; start < paragraph.length; start += wordsPerChunk) {
+      chunks.push({
+        tokens: paragraph.slice(start, start + wordsPerChunk),
+        startsParagraph: start === 0 && paragraphIndex > 0,
+      });
+    }
+  });
+  return chunks;
+}
+
+const authorPalette = ['#1d6fa5', '#b3541e', '#2f8a4c', '#8e44ad', '#c0392b', '#16808a', '#9a7d0a'];
+
+// Hashes the author id so a writer keeps their colour even if the player list changes.
+function authorColor(authorId: string | null) {
+  if (!authorId) return '#222';
+  let hash = 0;
+  for (let i = 0; i < authorId.length; i += 1) {
+    hash = (hash * 31 + authorId.charCodeAt(i)) >>> 0;
+  }
+  return authorPalette[hash % authorPalette.length];
+}
+
+// Turn, status and filter problems are caught before sending, and addWordToSession
+// rechecks them against the latest story, so a denial here has some other cause.
+function describeWordError(error: unknown) {
+  if (error instanceof StoryTurnError) {
+    return error.message;
+  }
+  if (isPermissionDenied(error)) {
+    return "The story didn't accept that. Check the latest words and try again.";
+  }
+  return error instanceof Error ? error.message : 'Could not add word.';
 }
 
 const styles = StyleSheet.create({
@@ -245,6 +1048,33 @@ const styles = StyleSheet.create({
     padding: 24,
     gap: 20,
   },
+  listContent: {
+    padding: 24,
+  },
+  listHeader: {
+    gap: 20,
+  },
+  listFooter: {
+    gap: 20,
+  },
+  storyCardTop: {
+    borderBottomLeftRadius: 0,
+    borderBottomRightRadius: 0,
+    paddingBottom: 8,
+  },
+  storyCardBottom: {
+    borderTopLeftRadius: 0,
+    borderTopRightRadius: 0,
+    paddingTop: 8,
+  },
+  storyChunk: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  storyParagraphStart: {
+    paddingTop: 16,
+  },
   title: {
     fontSize: 24,
     fontWeight: '700',
@@ -257,73 +1087,41 @@ const styles = StyleSheet.create({
     color: '#555',
     marginBottom: 4,
   },
-  card: {
-    backgroundColor: '#fff',
-    borderRadius: 16,
-    padding: 16,
-    gap: 12,
-    shadowColor: '#000',
-    shadowOpacity: 0.04,
-    shadowRadius: 6,
-    elevation: 1,
-  },
   error: {
     color: '#b00020',
   },
-  cardTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-  },
-  story: {
-    lineHeight: 20,
+  storyWordSelected: {
+    backgroundColor: '#fff3c4',
   },
-  hint: {
+  wordDetail: {
     fontSize: 12,
-    color: '#777',
-  },
-  activePlayer: {
-    fontSize: 26,
-    fontWeight: '700',
-  },
-  input: {
-    borderWidth: 1,
-    borderColor: '#d7d7d7',
-    borderRadius: 10,
-    paddingHorizontal: 12,
-    paddingVertical: 10,
-    backgroundColor: '#fdfdfd',
-  },
-  badgeRow: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 8,
+    color: '#1d3d47',
   },
-  badge: {
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 999,
-    borderWidth: 1,
-    borderColor: '#d7d7d7',
+  starter: {
+    gap: 2,
+    paddingBottom: 4,
   },
-  badgeActive: {
-    backgroundColor: '#e6f9ff',
-    borderColor: '#00a8c7',
+  starterTitle: {
+    fontWeight: '600',
   },
-  badgeText: {
+  blankPrompt: {
     fontWeight: '600',
   },
-  button: {
-    borderRadius: 10,
-    paddingVertical: 12,
-    alignItems: 'center',
-    backgroundColor: '#1d3d47',
+  starterOpening: {
+    fontStyle: 'italic',
+    lineHeight: 20,
   },
-  buttonDisabled: {
-    backgroundColor: '#9fb2b9',
+  activePlayer: {
+    fontSize: 26,
+    fontWeight: '700',
   },
-  buttonText: {
-    color: '#fff',
+  countdown: {
+    fontSize: 14,
     fontWeight: '600',
+    color: '#1d3d47',
+  },
+  countdownOverdue: {
+    color: '#b00020',
   },
   validationError: {
     color: '#b00020',
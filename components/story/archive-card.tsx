@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+import { ActionButton, Card, storyStyles } from '@/components/story/card';
+import { formatStoryText } from '@/lib/story-format';
+import { getArchivedStoryWords, type ArchivedStory, type StoryWord } from '@/lib/story-session';
+import { fillTemplate } from '@/lib/story-template';
+
+// A word-by-word reveal of a round's story. The words are loaded up front, so a reveal
+// carries on in the previous stories after the host saves the round.
+export type StoryReveal = { roundNumber: number; words: StoryWord[]; count: number };
+
+type ArchiveCardProps = {
+  sessionId: string;
+  archivedStories: ArchivedStory[];
+  reveal: StoryReveal | null;
+  onRevealChange: (reveal: StoryReveal | null) => void;
+  onError: (message: string | null) => void;
+};
+
+// Previous rounds. Tapping one loads its words; from there it can be revealed word by word.
+export function ArchiveCard({ sessionId, archivedStories, reveal, onRevealChange, onError }: ArchiveCardProps) {
+  const [expandedRound, setExpandedRound] = useState<number | null>(null);
+  const [archivedWords, setArchivedWords] = useState<{ roundNumber: number; words: StoryWord[] } | null>(null);
+  const isRevealing = reveal !== null && reveal.count < reveal.words.length;
+
+  const handleToggleRound = (story: ArchivedStory) => {
+    if (story.roundNumber === expandedRound || story.roundNumber === reveal?.roundNumber) {
+      setExpandedRound(null);
+      if (story.roundNumber === reveal?.roundNumber) onRevealChange(null);
+      return;
+    }
+    setExpandedRound(story.roundNumber);
+    if (archivedWords?.roundNumber === story.roundNumber) return;
+    getArchivedStoryWords(sessionId, story.roundNumber)
+      .then((words) => setArchivedWords({ roundNumber: story.roundNumber, words }))
+      .catch((firebaseError) =>
+        onError(firebaseError instanceof Error ? firebaseError.message : 'Could not load that story.')
+      );
+  };
+
+  const handleReveal = (story: ArchivedStory) => {
+    if (archivedWords?.roundNumber !== story.roundNumber) return;
+    onRevealChange({ roundNumber: story.roundNumber, words: archivedWords.words, count: 0 });
+  };
+
+  const handleShowAll = () => {
+    if (reveal) onRevealChange({ ...reveal, count: reveal.words.length });
+  };
+
+  return (
+    <Card title="Previous stories">
+      {archivedStories.map((story) => (
+        <TouchableOpacity
+          key={story.roundNumber}
+          accessibilityRole="button"
+          onPress={() => handleToggleRound(story)}
+          style={styles.archiveItem}>
+          <Text style={styles.archiveTitle}>{story.title}</Text>
+          <Text style={storyStyles.hint}>
+            {story.wordCount} words by {story.participants.map((player) => player.name).join(', ')}
+            {story.finishedAt ? ` · finished ${new Date(story.finishedAt).toLocaleDateString()}` : ''}
+          </Text>
+          {reveal?.roundNumber === story.roundNumber ? (
+            <>
+              <Text style={storyStyles.story}>{formatArchivedStory(story, reveal.words.slice(0, reveal.count))}</Text>
+              {isRevealing && <ActionButton label="Show it all" onPress={handleShowAll} />}
+            </>
+          ) : (
+            story.roundNumber === expandedRound && (
+              <>
+                <Text style={storyStyles.story}>
+                  {archivedWords?.roundNumber !== story.roundNumber
+                    ? 'Loading…'
+                    : formatArchivedStory(story, archivedWords.words)}
+                </Text>
+                {archivedWords?.roundNumber === story.roundNumber && archivedWords.words.length > 0 && (
+                  <ActionButton label="Reveal word by word" onPress={() => handleReveal(story)} />
+                )}
+              </>
+            )
+          )}
+        </TouchableOpacity>
+      ))}
+    </Card>
+  );
+}
+
+function formatArchivedStory(story: ArchivedStory, words: StoryWord[]) {
+  const text = words.map((entry) => entry.word);
+  return story.templateText ? fillTemplate(story.templateText, text) : formatStoryText(text);
+}
+
+const styles = StyleSheet.create({
+  archiveItem: {
+    gap: 4,
+    paddingVertical: 6,
+  },
+  archiveTitle: {
+    fontWeight: '600',
+  },
+});
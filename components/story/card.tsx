@@ -0,0 +1,140 @@
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+type CardProps = {
+  title: string;
+  children: React.ReactNode;
+};
+
+export function Card({ title, children }: CardProps) {
+  return (
+    <View style={storyStyles.card}>
+      <Text style={storyStyles.cardTitle}>{title}</Text>
+      {children}
+    </View>
+  );
+}
+
+type ActionButtonProps = {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+};
+
+export function ActionButton({ label, onPress, disabled }: ActionButtonProps) {
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      onPress={disabled ? undefined : onPress}
+      style={[styles.button, disabled && styles.buttonDisabled]}
+      activeOpacity={0.8}
+      disabled={disabled}>
+      <Text style={styles.buttonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+type ChipProps = {
+  label: string;
+  onPress: () => void;
+  selected?: boolean;
+  accessibilityLabel?: string;
+};
+
+// One option in a row of settings, or a quick pick like a word idea.
+export function Chip({ label, onPress, selected, accessibilityLabel }: ChipProps) {
+  return (
+    <TouchableOpacity
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      onPress={onPress}
+      style={[storyStyles.chip, selected && styles.chipSelected]}>
+      <Text style={storyStyles.chipText}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+// Shared by the story screen and its cards.
+export const storyStyles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOpacity: 0.04,
+    shadowRadius: 6,
+    elevation: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  story: {
+    lineHeight: 20,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#777',
+  },
+  settingsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: '#fdfdfd',
+  },
+  requestRow: {
+    gap: 6,
+  },
+  requestName: {
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#b00020',
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+});
+
+const styles = StyleSheet.create({
+  chipSelected: {
+    backgroundColor: '#e6f9ff',
+    borderColor: '#00a8c7',
+  },
+  button: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    alignItems: 'center',
+    backgroundColor: '#1d3d47',
+  },
+  buttonDisabled: {
+    backgroundColor: '#9fb2b9',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
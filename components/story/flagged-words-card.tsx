@@ -0,0 +1,54 @@
+import { Text, View } from 'react-native';
+
+import { ActionButton, Card, storyStyles } from '@/components/story/card';
+import { approveFlaggedWord, rejectFlaggedWord, type FlaggedWord, type Player } from '@/lib/story-session';
+
+type FlaggedWordsCardProps = {
+  sessionId: string;
+  userId: string | null;
+  flaggedWords: FlaggedWord[];
+  players: Player[];
+  isPlaying: boolean;
+  turnNumber: number;
+  onError: (message: string | null) => void;
+};
+
+// Words the filter caught, waiting for a host. Only the current turn's word can still go in.
+export function FlaggedWordsCard({
+  sessionId,
+  userId,
+  flaggedWords,
+  players,
+  isPlaying,
+  turnNumber,
+  onError,
+}: FlaggedWordsCardProps) {
+  const handleReviewWord = (flagged: FlaggedWord, approve: boolean) => {
+    if (!userId) return;
+    const review = approve ? approveFlaggedWord : rejectFlaggedWord;
+    review(sessionId, userId, flagged.turn).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not check the word.')
+    );
+  };
+
+  return (
+    <Card title="Words to check">
+      {flaggedWords.map((flagged) => {
+        const author = players.find((player) => player.id === flagged.authorId);
+        const isCurrent = isPlaying && flagged.turn === turnNumber;
+        return (
+          <View key={flagged.turn} style={storyStyles.requestRow}>
+            <Text style={storyStyles.requestName}>
+              “{flagged.word}” from {author?.name ?? 'a former player'}
+              {isCurrent ? '' : ' (turn has moved on)'}
+            </Text>
+            <View style={storyStyles.buttonRow}>
+              {isCurrent && <ActionButton label="Allow" onPress={() => handleReviewWord(flagged, true)} />}
+              <ActionButton label="Turn down" onPress={() => handleReviewWord(flagged, false)} />
+            </View>
+          </View>
+        );
+      })}
+    </Card>
+  );
+}
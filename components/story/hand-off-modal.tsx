@@ -0,0 +1,46 @@
+import { Modal, StyleSheet, Text, View } from 'react-native';
+
+import { ActionButton, storyStyles } from '@/components/story/card';
+
+type HandOffModalProps = {
+  visible: boolean;
+  /** The player whose turn it is; `null` while the story has nobody playing. */
+  playerName: string | null;
+  onReady: () => void;
+};
+
+// Covers the story between pass-and-play turns, so players sharing a device don't see
+// each other's screen.
+export function HandOffModal({ visible, playerName, onReady }: HandOffModalProps) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onReady}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Pass the device to {playerName}</Text>
+          <Text style={storyStyles.hint}>Their turn! Tap below once they have the device.</Text>
+          <ActionButton label={`I'm ${playerName ?? 'ready'}`} onPress={onReady} />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+});
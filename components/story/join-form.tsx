@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Text, TextInput } from 'react-native';
+import type { User } from 'firebase/auth';
+
+import { ActionButton, storyStyles } from '@/components/story/card';
+import {
+  addLocalPlayer,
+  cancelJoinRequest,
+  joinWithInvite,
+  requestToJoin,
+  type JoinPolicy,
+} from '@/lib/story-session';
+
+type JoinFormProps = {
+  sessionId: string;
+  user: User | null;
+  joinPolicy: JoinPolicy;
+  /** Set when the screen was opened from an invite link, which lets the user in without a host. */
+  inviteToken: string | null;
+  isPlayer: boolean;
+  /** The user's own join request is waiting for a host. */
+  isPending: boolean;
+  onJoined: () => void;
+  onError: (message: string | null) => void;
+};
+
+// Joins the story with a name, or asks to. Once you're in, it adds pass-and-play players
+// who share your device instead.
+export function JoinForm({
+  sessionId,
+  user,
+  joinPolicy,
+  inviteToken,
+  isPlayer,
+  isPending,
+  onJoined,
+  onError,
+}: JoinFormProps) {
+  const [nameInput, setNameInput] = useState('');
+  const joinLabel = joinPolicy === 'open' || inviteToken ? 'Join story' : 'Ask to join';
+
+  const handleAddPlayer = () => {
+    if (!user) return;
+    if (isPlayer) {
+      const name = nameInput.trim();
+      if (!name) return;
+      setNameInput('');
+      addLocalPlayer(sessionId, user.uid, name).catch((firebaseError) =>
+        onError(firebaseError instanceof Error ? firebaseError.message : 'Could not add player.')
+      );
+      return;
+    }
+
+    const name = nameInput.trim() || user.displayName || user.email || 'Player';
+    setNameInput('');
+    const join = inviteToken
+      ? joinWithInvite(sessionId, inviteToken, { id: user.uid, name })
+      : requestToJoin(sessionId, { id: user.uid, name });
+    join
+      .then(onJoined)
+      .catch((firebaseError) =>
+        onError(firebaseError instanceof Error ? firebaseError.message : 'Could not join the story.')
+      );
+  };
+
+  const handleCancelRequest = () => {
+    if (!user) return;
+    cancelJoinRequest(sessionId, user.uid).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not cancel the request.')
+    );
+  };
+
+  if (isPending) {
+    return (
+      <>
+        <Text style={storyStyles.hint}>Waiting for a host to let you in…</Text>
+        <ActionButton label="Cancel request" onPress={handleCancelRequest} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <TextInput
+        value={nameInput}
+        onChangeText={setNameInput}
+        placeholder={isPlayer ? 'Name of someone playing on this device' : 'Your name'}
+        style={storyStyles.input}
+        onSubmitEditing={handleAddPlayer}
+      />
+      <ActionButton
+        label={isPlayer ? 'Add player on this device' : joinLabel}
+        onPress={handleAddPlayer}
+        disabled={!user}
+      />
+    </>
+  );
+}
@@ -0,0 +1,37 @@
+import { Text, View } from 'react-native';
+
+import { ActionButton, Card, storyStyles } from '@/components/story/card';
+import { approveJoinRequest, denyJoinRequest, type JoinRequest } from '@/lib/story-session';
+
+type JoinRequestsCardProps = {
+  sessionId: string;
+  userId: string | null;
+  joinRequests: JoinRequest[];
+  onError: (message: string | null) => void;
+};
+
+export function JoinRequestsCard({ sessionId, userId, joinRequests, onError }: JoinRequestsCardProps) {
+  const handleAnswerRequest = (joinRequest: JoinRequest, approve: boolean) => {
+    if (!userId) return;
+    const answer = approve ? approveJoinRequest : denyJoinRequest;
+    answer(sessionId, userId, joinRequest.id).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not answer the join request.')
+    );
+  };
+
+  return (
+    <Card title="Join requests">
+      {joinRequests.map((joinRequest) => (
+        <View key={joinRequest.id} style={storyStyles.requestRow}>
+          <Text style={storyStyles.requestName} numberOfLines={1}>
+            {joinRequest.name}
+          </Text>
+          <View style={storyStyles.buttonRow}>
+            <ActionButton label="Let in" onPress={() => handleAnswerRequest(joinRequest, true)} />
+            <ActionButton label="Deny" onPress={() => handleAnswerRequest(joinRequest, false)} />
+          </View>
+        </View>
+      ))}
+    </Card>
+  );
+}
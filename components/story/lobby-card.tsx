@@ -0,0 +1,47 @@
+import { Text } from 'react-native';
+
+import { ActionButton, Card, storyStyles } from '@/components/story/card';
+import { setPlayerReady, type Player } from '@/lib/story-session';
+
+type LobbyCardProps = {
+  sessionId: string;
+  userId: string | null;
+  players: Player[];
+  readyPlayerIds: string[];
+  isPlayer: boolean;
+  isHost: boolean;
+  onStart: () => void;
+  onError: (message: string | null) => void;
+};
+
+export function LobbyCard({
+  sessionId,
+  userId,
+  players,
+  readyPlayerIds,
+  isPlayer,
+  isHost,
+  onStart,
+  onError,
+}: LobbyCardProps) {
+  const isReady = Boolean(userId && readyPlayerIds.includes(userId));
+  const readyCount = players.filter((player) => readyPlayerIds.includes(player.id)).length;
+
+  const handleToggleReady = () => {
+    if (!userId) return;
+    setPlayerReady(sessionId, userId, !isReady).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not update your ready status.')
+    );
+  };
+
+  return (
+    <Card title="Lobby">
+      <Text style={storyStyles.hint}>
+        {readyCount} of {players.length} players ready. The host can start whenever everyone is here; the turn order
+        below is locked once the story starts.
+      </Text>
+      {isPlayer && <ActionButton label={isReady ? "I'm not ready" : "I'm ready"} onPress={handleToggleReady} />}
+      {isHost && <ActionButton label="Start story" onPress={onStart} disabled={!players.length} />}
+    </Card>
+  );
+}
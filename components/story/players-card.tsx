@@ -0,0 +1,289 @@
+import { useMemo, useRef, useState } from 'react';
+import { Animated, PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import type { User } from 'firebase/auth';
+
+import { ActionButton, Card, Chip, storyStyles } from '@/components/story/card';
+import { JoinForm } from '@/components/story/join-form';
+import { isChildPlayerId, type ChildProfile } from '@/lib/child-profile';
+import {
+  addChildPlayer,
+  canActFor,
+  leaveSession,
+  removePlayerFromSession,
+  reorderPlayers,
+  setCoHost,
+  transferOwnership,
+  type JoinPolicy,
+  type Player,
+  type StoryStatus,
+} from '@/lib/story-session';
+
+type PlayersCardProps = {
+  sessionId: string;
+  user: User | null;
+  players: Player[];
+  status: StoryStatus;
+  activePlayerIndex: number;
+  ownerId: string | null;
+  coHostIds: string[];
+  readyPlayerIds: string[];
+  joinPolicy: JoinPolicy;
+  inviteToken: string | null;
+  isHost: boolean;
+  isPlayer: boolean;
+  /** The user's own join request is waiting for a host. */
+  isPending: boolean;
+  /** The user's kids who aren't playing yet but could join. */
+  addableChildren: ChildProfile[];
+  onJoined: () => void;
+  onError: (message: string | null) => void;
+};
+
+// The turn order, with the host's controls for it, and ways in for the user and their household.
+export function PlayersCard({
+  sessionId,
+  user,
+  players,
+  status,
+  activePlayerIndex,
+  ownerId,
+  coHostIds,
+  readyPlayerIds,
+  joinPolicy,
+  inviteToken,
+  isHost,
+  isPlayer,
+  isPending,
+  addableChildren,
+  onJoined,
+  onError,
+}: PlayersCardProps) {
+  const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
+  const isOwner = Boolean(user && ownerId === user.uid);
+  const selectedPlayer = isOwner
+    ? players.find((player) => player.id === selectedPlayerId && !player.managedBy)
+    : undefined;
+  const canReorder = isHost && status === 'lobby' && players.length > 1;
+
+  const handleRemovePlayer = (player: Player) => {
+    if (!user) return;
+    setSelectedPlayerId(null);
+    // Anyone can take their own pass-and-play players out; everyone else needs a host.
+    const removal = canActFor(player, user.uid)
+      ? leaveSession(sessionId, player.id)
+      : removePlayerFromSession(sessionId, user.uid, player.id);
+    removal.catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not remove player.')
+    );
+  };
+
+  const handleMovePlayer = (from: number, to: number) => {
+    if (!user) return;
+    const order = players.map((player) => player.id);
+    const [moved] = order.splice(from, 1);
+    order.splice(to, 0, moved);
+
+    reorderPlayers(sessionId, user.uid, order).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the turn order.')
+    );
+  };
+
+  const handleToggleCoHost = (player: Player) => {
+    if (!user) return;
+    setSelectedPlayerId(null);
+    setCoHost(sessionId, user.uid, player.id, !coHostIds.includes(player.id)).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not update co-hosts.')
+    );
+  };
+
+  const handleTransferOwnership = (player: Player) => {
+    if (!user) return;
+    setSelectedPlayerId(null);
+    transferOwnership(sessionId, user.uid, player.id).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not transfer ownership.')
+    );
+  };
+
+  const handleAddChild = (child: ChildProfile) => {
+    if (!user) return;
+    addChildPlayer(sessionId, user.uid, child.id).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : `Could not add ${child.name}.`)
+    );
+  };
+
+  const handleLeave = () => {
+    if (!user) return;
+    leaveSession(sessionId, user.uid).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not leave story.')
+    );
+  };
+
+  return (
+    <Card title="Players">
+      <View>
+        {players.map((player, index) => (
+          <DraggableRow
+            key={player.id}
+            index={index}
+            count={players.length}
+            enabled={canReorder}
+            onDrop={handleMovePlayer}>
+            <TouchableOpacity
+              accessibilityRole="button"
+              disabled={!isOwner || player.id === user?.uid}
+              onPress={() => setSelectedPlayerId(player.id === selectedPlayerId ? null : player.id)}
+              style={[
+                styles.badge,
+                status === 'playing' && index === activePlayerIndex && styles.badgeActive,
+                player.id === selectedPlayerId && styles.badgeSelected,
+              ]}>
+              <Text style={styles.badgeText} numberOfLines={1}>
+                {index + 1}. {player.id === ownerId ? '★ ' : ''}
+                {player.avatar ? `${player.avatar} ` : ''}
+                {player.name}
+                {coHostIds.includes(player.id) ? ' (co-host)' : ''}
+                {player.managedBy && !isChildPlayerId(player.id) ? ' (pass-and-play)' : ''}
+                {status === 'lobby' && readyPlayerIds.includes(player.id) ? ' ✓' : ''}
+              </Text>
+            </TouchableOpacity>
+            {((isHost && player.id !== ownerId && player.id !== user?.uid) ||
+              Boolean(user && player.managedBy === user.uid)) && (
+              <TouchableOpacity accessibilityRole="button" onPress={() => handleRemovePlayer(player)}>
+                <Text style={storyStyles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </DraggableRow>
+        ))}
+        {!players.length && <Text>No players yet. Add a name below.</Text>}
+      </View>
+      {canReorder && <Text style={storyStyles.hint}>Drag ☰ to change the turn order.</Text>}
+      {isOwner && !selectedPlayer && players.length > 1 && (
+        <Text style={storyStyles.hint}>Tap a player to make them a co-host or hand over the story.</Text>
+      )}
+      {selectedPlayer && (
+        <View style={storyStyles.buttonRow}>
+          <ActionButton
+            label={coHostIds.includes(selectedPlayer.id) ? 'Remove co-host' : 'Make co-host'}
+            onPress={() => handleToggleCoHost(selectedPlayer)}
+          />
+          <ActionButton label="Make owner" onPress={() => handleTransferOwnership(selectedPlayer)} />
+        </View>
+      )}
+      <JoinForm
+        sessionId={sessionId}
+        user={user}
+        joinPolicy={joinPolicy}
+        inviteToken={inviteToken}
+        isPlayer={isPlayer}
+        isPending={isPending}
+        onJoined={onJoined}
+        onError={onError}
+      />
+      {addableChildren.length > 0 && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Add a kid:</Text>
+          {addableChildren.map((child) => (
+            <Chip key={child.id} label={`${child.avatar} ${child.name}`} onPress={() => handleAddChild(child)} />
+          ))}
+        </View>
+      )}
+      {isPlayer && <ActionButton label="Leave story" onPress={handleLeave} />}
+    </Card>
+  );
+}
+
+const playerRowHeight = 44;
+const playerRowGap = 8;
+
+type DraggableRowProps = {
+  index: number;
+  count: number;
+  enabled: boolean;
+  onDrop: (from: number, to: number) => void;
+  children: React.ReactNode;
+};
+
+// Rows have a fixed height, so the drop position is just how many rows the drag covered.
+function DraggableRow({ index, count, enabled, onDrop, children }: DraggableRowProps) {
+  const offset = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState(false);
+
+  const responder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => enabled,
+        onMoveShouldSetPanResponder: () => enabled,
+        // Keep the drag even when the surrounding list wants to scroll.
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => setDragging(true),
+        onPanResponderMove: Animated.event([null, { dy: offset }], { useNativeDriver: false }),
+        onPanResponderRelease: (_event, gesture) => {
+          const moved = Math.round(gesture.dy / (playerRowHeight + playerRowGap));
+          const target = Math.min(Math.max(index + moved, 0), count - 1);
+          offset.setValue(0);
+          setDragging(false);
+          if (target !== index) onDrop(index, target);
+        },
+        onPanResponderTerminate: () => {
+          offset.setValue(0);
+          setDragging(false);
+        },
+      }),
+    [enabled, index, count, onDrop, offset]
+  );
+
+  return (
+    <Animated.View
+      style={[styles.playerRow, dragging && styles.playerRowDragging, { transform: [{ translateY: offset }] }]}>
+      {enabled && (
+        <View {...responder.panHandlers} accessibilityLabel="Drag to reorder" style={styles.dragHandle}>
+          <Text style={styles.dragHandleText}>☰</Text>
+        </View>
+      )}
+      {children}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  playerRow: {
+    height: playerRowHeight,
+    marginBottom: playerRowGap,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  playerRowDragging: {
+    zIndex: 1,
+    opacity: 0.85,
+  },
+  dragHandle: {
+    width: 32,
+    height: playerRowHeight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dragHandleText: {
+    fontSize: 18,
+    color: '#777',
+  },
+  badge: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#d7d7d7',
+  },
+  badgeActive: {
+    backgroundColor: '#e6f9ff',
+    borderColor: '#00a8c7',
+  },
+  badgeSelected: {
+    borderColor: '#1d3d47',
+    borderWidth: 2,
+  },
+  badgeText: {
+    fontWeight: '600',
+  },
+});
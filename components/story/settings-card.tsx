@@ -0,0 +1,391 @@
+import { useState } from 'react';
+import { Text, TextInput, View } from 'react-native';
+
+import { Card, Chip, storyStyles } from '@/components/story/card';
+import { describeContributionMode, isSameContributionMode, type ContributionMode } from '@/lib/contribution-mode';
+import { contentFilterLevels, describeContentFilter, type ContentFilterLevel } from '@/lib/content-filter';
+import type { Family } from '@/lib/family';
+import {
+  allowWord,
+  removeAllowedWord,
+  setContentFilter,
+  setContributionMode,
+  setDictionaryCheck,
+  setEndConditions,
+  setHiddenStory,
+  setJoinPolicy,
+  setStoryFamily,
+  setStoryStarter,
+  setStoryTemplate,
+  setTurnTimeLimit,
+  type JoinPolicy,
+  type StorySessionState,
+} from '@/lib/story-session';
+import { randomStarter, storyStarters, toStoryStarter, type StarterEntry } from '@/lib/story-starter';
+import { storyTemplates, type StoryTemplate } from '@/lib/story-template';
+
+type SettingsCardProps = Pick<
+  StorySessionState,
+  | 'status'
+  | 'wordCount'
+  | 'template'
+  | 'visibleWordCount'
+  | 'targetWordCount'
+  | 'endsAt'
+  | 'turnTimeLimitMs'
+  | 'contributionMode'
+  | 'joinPolicy'
+  | 'contentFilter'
+  | 'reviewFlaggedWords'
+  | 'starter'
+  | 'dictionaryCheck'
+  | 'allowedWords'
+  | 'familyId'
+> & {
+  sessionId: string;
+  userId: string | null;
+  /** The host's own starters, offered after the built-in ones. */
+  savedStarters: StarterEntry[];
+  /** The host's families, any of which the story can belong to. */
+  families: Family[];
+  onError: (message: string | null) => void;
+};
+
+// The host's settings. Those that change what a story is, like the game or a hidden
+// story, can only change before the first word.
+export function SettingsCard({
+  sessionId,
+  userId,
+  status,
+  wordCount,
+  template,
+  visibleWordCount,
+  targetWordCount,
+  endsAt,
+  turnTimeLimitMs,
+  contributionMode,
+  joinPolicy,
+  contentFilter,
+  reviewFlaggedWords,
+  starter,
+  dictionaryCheck,
+  allowedWords,
+  familyId,
+  savedStarters,
+  families,
+  onError,
+}: SettingsCardProps) {
+  const [allowedWordInput, setAllowedWordInput] = useState('');
+
+  const handleSetTimeLimit = (limitMs: number | null) => {
+    if (!userId) return;
+    setTurnTimeLimit(sessionId, userId, limitMs).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the time limit.')
+    );
+  };
+
+  const handleSetContributionMode = (mode: ContributionMode) => {
+    if (!userId) return;
+    setContributionMode(sessionId, userId, mode).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change how turns work.')
+    );
+  };
+
+  const handleSetJoinPolicy = (policy: JoinPolicy) => {
+    if (!userId) return;
+    setJoinPolicy(sessionId, userId, policy).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change who can join.')
+    );
+  };
+
+  const handleSetContentFilter = (settings: { contentFilter?: ContentFilterLevel; reviewFlaggedWords?: boolean }) => {
+    if (!userId) return;
+    setContentFilter(sessionId, userId, settings).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the word filter.')
+    );
+  };
+
+  const handleSetDictionaryCheck = (enabled: boolean) => {
+    if (!userId) return;
+    setDictionaryCheck(sessionId, userId, enabled).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the dictionary check.')
+    );
+  };
+
+  const handleAllowWord = async () => {
+    if (!userId || !allowedWordInput.trim()) return;
+    onError(null);
+    try {
+      await allowWord(sessionId, userId, allowedWordInput);
+      setAllowedWordInput('');
+    } catch (firebaseError) {
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not allow the word.');
+    }
+  };
+
+  const handleRemoveAllowedWord = (word: string) => {
+    if (!userId) return;
+    removeAllowedWord(sessionId, userId, word).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not remove the word.')
+    );
+  };
+
+  const handleSetStarter = (choice: StarterEntry | 'random' | null) => {
+    if (!userId) return;
+    const picked = choice === 'random' ? randomStarter([...storyStarters, ...savedStarters]) : choice;
+    setStoryStarter(sessionId, userId, picked ? toStoryStarter(picked) : null).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the starter.')
+    );
+  };
+
+  const handleSetHiddenStory = (nextVisibleWordCount: number | null) => {
+    if (!userId) return;
+    setHiddenStory(sessionId, userId, nextVisibleWordCount).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the hidden story setting.')
+    );
+  };
+
+  const handleSetTemplate = (nextTemplate: StoryTemplate | null) => {
+    if (!userId) return;
+    setStoryTemplate(sessionId, userId, nextTemplate).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the game.')
+    );
+  };
+
+  const handleSetFamily = (nextFamilyId: string | null) => {
+    if (!userId) return;
+    setStoryFamily(sessionId, userId, nextFamilyId).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change the family.')
+    );
+  };
+
+  const handleSetEndConditions = (conditions: Pick<StorySessionState, 'targetWordCount' | 'endsAt'>) => {
+    if (!userId) return;
+    setEndConditions(sessionId, userId, conditions).catch((firebaseError) =>
+      onError(firebaseError instanceof Error ? firebaseError.message : 'Could not change when the story ends.')
+    );
+  };
+
+  return (
+    <Card title="Settings">
+      {(targetWordCount !== null || endsAt !== null) && (
+        <Text style={storyStyles.hint}>
+          The story ends
+          {targetWordCount !== null ? ` at ${targetWordCount} words` : ''}
+          {targetWordCount !== null && endsAt !== null ? ' or' : ''}
+          {endsAt !== null ? ` on ${new Date(endsAt).toLocaleString()}` : ''}, whichever comes first.
+        </Text>
+      )}
+      {status === 'lobby' && !wordCount && !template && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Hidden story:</Text>
+          {visibleWordCountOptions.map((option) => (
+            <Chip
+              key={option ?? 'off'}
+              label={option === null ? 'Off' : `Show the last ${option === 1 ? 'word' : `${option} words`}`}
+              onPress={() => handleSetHiddenStory(option)}
+              selected={option === visibleWordCount}
+            />
+          ))}
+        </View>
+      )}
+      {status === 'lobby' && !wordCount && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Game:</Text>
+          {[null, ...storyTemplates].map((option) => (
+            <Chip
+              key={option?.id ?? 'none'}
+              label={option ? `Fill-in: ${option.title}` : 'Add to the story'}
+              onPress={() => handleSetTemplate(option)}
+              selected={(option?.id ?? null) === (template?.id ?? null)}
+            />
+          ))}
+        </View>
+      )}
+      {!template && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>End at:</Text>
+          {targetWordCountOptions.map((option) => (
+            <Chip
+              key={option ?? 'none'}
+              label={option === null ? 'No target' : `${option} words`}
+              onPress={() => handleSetEndConditions({ targetWordCount: option, endsAt })}
+              selected={option === targetWordCount}
+            />
+          ))}
+        </View>
+      )}
+      <View style={storyStyles.settingsRow}>
+        <Text style={storyStyles.hint}>End date:</Text>
+        {endDateOptions.map((option) => (
+          <Chip
+            key={option.label}
+            label={option.label}
+            onPress={() =>
+              handleSetEndConditions({
+                targetWordCount,
+                endsAt: option.ms === null ? null : Date.now() + option.ms,
+              })
+            }
+            selected={option.ms === null && endsAt === null}
+          />
+        ))}
+      </View>
+      <View style={storyStyles.settingsRow}>
+        <Text style={storyStyles.hint}>Turn time limit:</Text>
+        {turnTimeLimitOptions.map((option) => (
+          <Chip
+            key={option.label}
+            label={option.label}
+            onPress={() => handleSetTimeLimit(option.ms)}
+            selected={option.ms === turnTimeLimitMs}
+          />
+        ))}
+      </View>
+      {!template && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Each turn adds:</Text>
+          {contributionModeOptions.map((option) => (
+            <Chip
+              key={describeContributionMode(option)}
+              label={describeContributionMode(option)}
+              onPress={() => handleSetContributionMode(option)}
+              selected={isSameContributionMode(option, contributionMode)}
+            />
+          ))}
+        </View>
+      )}
+      <View style={storyStyles.settingsRow}>
+        <Text style={storyStyles.hint}>New players:</Text>
+        {joinPolicyOptions.map((option) => (
+          <Chip
+            key={option.policy}
+            label={option.label}
+            onPress={() => handleSetJoinPolicy(option.policy)}
+            selected={option.policy === joinPolicy}
+          />
+        ))}
+      </View>
+      <View style={storyStyles.settingsRow}>
+        <Text style={storyStyles.hint}>Word filter:</Text>
+        {contentFilterLevels.map((level) => (
+          <Chip
+            key={level}
+            label={describeContentFilter(level)}
+            onPress={() => handleSetContentFilter({ contentFilter: level })}
+            selected={level === contentFilter}
+          />
+        ))}
+      </View>
+      {contentFilter !== 'off' && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Caught words:</Text>
+          {[false, true].map((review) => (
+            <Chip
+              key={String(review)}
+              label={review ? 'A host checks them' : 'Turned away'}
+              onPress={() => handleSetContentFilter({ reviewFlaggedWords: review })}
+              selected={review === reviewFlaggedWords}
+            />
+          ))}
+        </View>
+      )}
+      {!wordCount && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Starter:</Text>
+          <Chip label="None" onPress={() => handleSetStarter(null)} selected={!starter} />
+          <Chip label="🎲 Surprise me" onPress={() => handleSetStarter('random')} />
+          {[...storyStarters, ...savedStarters].map((entry) => (
+            <Chip
+              key={entry.id}
+              label={entry.title}
+              onPress={() => handleSetStarter(entry)}
+              selected={entry.title === starter?.title}
+            />
+          ))}
+        </View>
+      )}
+      <View style={storyStyles.settingsRow}>
+        <Text style={storyStyles.hint}>Dictionary:</Text>
+        {[false, true].map((enabled) => (
+          <Chip
+            key={String(enabled)}
+            label={enabled ? 'Real words only' : 'Anything goes'}
+            onPress={() => handleSetDictionaryCheck(enabled)}
+            selected={enabled === dictionaryCheck}
+          />
+        ))}
+      </View>
+      {dictionaryCheck && (
+        <>
+          <Text style={storyStyles.hint}>
+            Players&apos; names always count. Allow other names and made-up words here.
+          </Text>
+          {allowedWords.length > 0 && (
+            <View style={storyStyles.settingsRow}>
+              {allowedWords.map((word) => (
+                <Chip
+                  key={word}
+                  label={`${word} ✕`}
+                  accessibilityLabel={`Stop allowing ${word}`}
+                  onPress={() => handleRemoveAllowedWord(word)}
+                />
+              ))}
+            </View>
+          )}
+          <TextInput
+            value={allowedWordInput}
+            onChangeText={setAllowedWordInput}
+            placeholder="Allow a word"
+            style={storyStyles.input}
+            autoCapitalize="none"
+            onSubmitEditing={handleAllowWord}
+          />
+        </>
+      )}
+      {families.length > 0 && (
+        <View style={storyStyles.settingsRow}>
+          <Text style={storyStyles.hint}>Family:</Text>
+          {[null, ...families].map((family) => (
+            <Chip
+              key={family?.id ?? 'none'}
+              label={family?.name ?? 'None'}
+              onPress={() => handleSetFamily(family?.id ?? null)}
+              selected={(family?.id ?? null) === familyId}
+            />
+          ))}
+        </View>
+      )}
+    </Card>
+  );
+}
+
+const turnTimeLimitOptions = [
+  { label: 'Off', ms: null },
+  { label: '2 min', ms: 2 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+];
+
+const targetWordCountOptions = [null, 50, 100, 250];
+
+const visibleWordCountOptions = [null, 1, 3, 5];
+
+const endDateOptions = [
+  { label: 'No end date', ms: null },
+  { label: 'In 1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: 'In 1 week', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const contributionModeOptions: ContributionMode[] = [
+  { kind: 'word' },
+  { kind: 'words', maxWords: 3 },
+  { kind: 'words', maxWords: 5 },
+  { kind: 'sentence' },
+  { kind: 'paragraph' },
+];
+
+const joinPolicyOptions: { policy: JoinPolicy; label: string }[] = [
+  { policy: 'approval', label: 'Host approves' },
+  { policy: 'open', label: 'Anyone with the code' },
+];
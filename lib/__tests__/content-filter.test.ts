@@ -0,0 +1,22 @@
+import { findBlockedWords } from '../content-filter';
+
+describe('findBlockedWords', () => {
+  it('leaves ordinary words that contain or extend a blocked one', () => {
+    const text = 'cones bites class butter Scunthorpe assess cocker spaniel hello cumin titer';
+
+    expect(findBlockedWords(text, 'young-kids', 'en')).toEqual([]);
+    expect(findBlockedWords('des cones et une conte', 'family', 'fr')).toEqual([]);
+    expect(findBlockedWords('el cono de helado', 'family', 'es')).toEqual([]);
+  });
+
+  it('catches listed forms, stretched and starred-out letters and spelled-out words', () => {
+    expect(findBlockedWords('fucking fuuuck f*ck sh1t', 'family', 'en')).toEqual(['fucking', 'fuuuck', 'f*ck', 'sh1t']);
+    expect(findBlockedWords('f u c k', 'family', 'en')).toEqual(['f u c k']);
+    expect(findBlockedWords('quel con', 'family', 'fr')).toEqual(['con']);
+  });
+
+  it('blocks milder words only for young kids', () => {
+    expect(findBlockedWords('stupid', 'family', 'en')).toEqual([]);
+    expect(findBlockedWords('stupid', 'young-kids', 'en')).toEqual(['stupid']);
+  });
+});
@@ -0,0 +1,40 @@
+import { normalizeContributionMode, validateContribution } from '../contribution-mode';
+
+describe('validateContribution', () => {
+  it('takes one word, however it was spaced, in one-word stories', () => {
+    expect(validateContribution('  dragon ', { kind: 'word' })).toBeNull();
+    expect(validateContribution('big dragon', { kind: 'word' })).toBe('Please enter only one word (no spaces).');
+    expect(validateContribution('   ', { kind: 'word' })).toBe('Type something before adding it.');
+  });
+
+  it('counts words after collapsing the spaces between them', () => {
+    expect(validateContribution('a   big\tdragon', { kind: 'words', maxWords: 3 })).toBeNull();
+    expect(validateContribution('a big red dragon', { kind: 'words', maxWords: 3 })).toBe(
+      'Please enter at most 3 words.'
+    );
+  });
+
+  it('takes a sentence ending in punctuation or quotes, but not a second one', () => {
+    expect(validateContribution('The dragon said "hi."', { kind: 'sentence' })).toBeNull();
+    expect(validateContribution('Dr.Who waved', { kind: 'sentence' })).toBeNull();
+    expect(validateContribution('It rained. Then it snowed.', { kind: 'sentence' })).toBe(
+      'Please enter just one sentence.'
+    );
+    expect(validateContribution('"Run!" she said', { kind: 'sentence' })).toBe('Please enter just one sentence.');
+  });
+
+  it('limits the length of sentences and paragraphs', () => {
+    expect(validateContribution('a'.repeat(201), { kind: 'sentence' })).toMatch(/under 200 characters/);
+    expect(validateContribution('One. Two. Three.', { kind: 'paragraph' })).toBeNull();
+    expect(validateContribution('a'.repeat(601), { kind: 'paragraph' })).toMatch(/under 600 characters/);
+  });
+});
+
+describe('normalizeContributionMode', () => {
+  it('falls back to one word and keeps word limits in range', () => {
+    expect(normalizeContributionMode(undefined)).toEqual({ kind: 'word' });
+    expect(normalizeContributionMode({ kind: 'poem' })).toEqual({ kind: 'word' });
+    expect(normalizeContributionMode({ kind: 'words', maxWords: 50 })).toEqual({ kind: 'words', maxWords: 10 });
+    expect(normalizeContributionMode({ kind: 'words', maxWords: 'lots' })).toEqual({ kind: 'word' });
+  });
+});
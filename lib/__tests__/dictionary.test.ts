@@ -0,0 +1,28 @@
+import { describeUnknownWords, findUnknownWords, normalizeDictionaryWord } from '../dictionary';
+
+describe('findUnknownWords', () => {
+  it('knows common words whatever their case and punctuation', () => {
+    expect(findUnknownWords('The Dog’s "colour" ran, and it didn’t stop!')).toEqual([]);
+    expect(findUnknownWords('dog-house 42 .')).toEqual([]);
+  });
+
+  it('returns unknown words as typed, unless a host allowed them', () => {
+    expect(findUnknownWords('Zorp ate glorbles,')).toEqual(['Zorp', 'glorbles,']);
+    expect(findUnknownWords('Zorp ate glorbles,', ['zorp', 'Glorbles'])).toEqual([]);
+    expect(findUnknownWords('dog-zorp')).toEqual(['dog-zorp']);
+  });
+});
+
+describe('normalizeDictionaryWord', () => {
+  it('strips surrounding punctuation and a possessive', () => {
+    expect(normalizeDictionaryWord('“Dog’s,”')).toBe('dog');
+    expect(normalizeDictionaryWord("(can't)")).toBe("can't");
+  });
+});
+
+describe('describeUnknownWords', () => {
+  it('quotes each word', () => {
+    expect(describeUnknownWords(['zorp'])).toMatch(/^“zorp” isn't in our dictionary/);
+    expect(describeUnknownWords(['zorp', 'glorb'])).toMatch(/^“zorp”, “glorb” aren't in our dictionary/);
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Whether the Firestore emulator is there for `tests`. `npm test` always starts it, so a
+ * missing one fails the run there; anywhere else (`npm run test:unit`) the tests are skipped
+ * with a warning, so a green run without them doesn't pass for rules coverage.
+ */
+export function hasFirestoreEmulator(tests: string) {
+  if (process.env.FIRESTORE_EMULATOR_HOST) return true;
+  if (process.env.npm_lifecycle_event === 'test') {
+    throw new Error(`The ${tests} need the Firestore emulator, which \`npm test\` starts. Is Java installed?`);
+  }
+  console.warn(`Skipping the ${tests}: FIRESTORE_EMULATOR_HOST isn't set. Run \`npm test\` to include them.`);
+  return false;
+}
@@ -0,0 +1,885 @@
+import { readFileSync } from 'fs';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+
+import { createChildProfile, deleteChildProfile, setParentalSettings, updateChildProfile } from '../child-profile';
+import {
+  createFamily,
+  createFamilyInvite,
+  getFamiliesForUser,
+  getFamily,
+  getFamilyInviteCode,
+  joinFamily,
+  leaveFamily,
+  removeFamilyMember,
+  revokeFamilyInvite,
+  setFamilyAdmin,
+} from '../family';
+import { createFirestoreStoryStore } from '../firestore-story-store';
+import {
+  addChildPlayer,
+  addLocalPlayer,
+  addPlayerToSession,
+  addWordToSession,
+  allowWord,
+  approveFlaggedWord,
+  approveJoinRequest,
+  cancelJoinRequest,
+  createInvite,
+  createSession,
+  denyJoinRequest,
+  endSession,
+  endSessionIfDue,
+  findSession,
+  finishSessionStory,
+  getSessionsForFamily,
+  getSessionsForUser,
+  getStoryWords,
+  joinWithInvite,
+  leaveSession,
+  migrateSessionWords,
+  passTurn,
+  PrivateStoryError,
+  rejectFlaggedWord,
+  removePlayerFromSession,
+  reorderPlayers,
+  requestToJoin,
+  resetSessionStory,
+  revokeInvite,
+  setCoHost,
+  setContentFilter,
+  setContributionMode,
+  setEndConditions,
+  setHiddenStory,
+  setJoinPolicy,
+  setPlayerReady,
+  setStoryFamily,
+  setStoryStarter,
+  setStoryTemplate,
+  setTurnTimeLimit,
+  skipOverdueTurn,
+  startSession,
+  transferOwnership,
+  type Player,
+} from '../story-session';
+import { deleteSavedStarter, saveStarter, storyStarters } from '../story-starter';
+import { setStoryStore, type StoreData } from '../story-store';
+import { storyTemplates } from '../story-template';
+import { hasFirestoreEmulator } from './emulator';
+
+// Checks firestore.rules against the writes the lib functions make. Each allowed case goes
+// through the lib; denied ones are what a modified app could send. The Firestore emulator
+// runs them, so only under `npm test`.
+const describeRules = hasFirestoreEmulator('firestore.rules tests') ? describe : describe.skip;
+
+const olive: Player = { id: 'olive', name: 'Olive' };
+const cora: Player = { id: 'cora', name: 'Cora' };
+const pia: Player = { id: 'pia', name: 'Pia' };
+const otto: Player = { id: 'otto', name: 'Otto' };
+
+let testEnv: RulesTestEnvironment;
+
+// Signs `uid` in, both for the lib functions (through the story store) and for raw writes.
+function signIn(uid: string) {
+  const db = testEnv.authenticatedContext(uid).firestore() as unknown as Firestore;
+  setStoryStore(createFirestoreStoryStore(() => db));
+  return db;
+}
+
+async function seed(path: string, data: StoreData) {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await setDoc(doc(context.firestore() as unknown as Firestore, path), data, { merge: true });
+  });
+}
+
+async function read(path: string) {
+  let data: StoreData | undefined;
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    data = (await getDoc(doc(context.firestore() as unknown as Firestore, path))).data();
+  });
+  return data;
+}
+
+// A session write the way a modified app might send it.
+function patchSession(db: Firestore, sessionId: string, patch: StoreData) {
+  return setDoc(doc(db, 'sessions', sessionId), { ...patch, updatedAt: serverTimestamp() }, { merge: true });
+}
+
+// Olive's first word, written directly, skipping the checks addWordToSession makes first.
+async function writeFirstWord(db: Firestore, sessionId: string, word: string) {
+  const entry = { index: 0, word, authorId: olive.id, turn: 0, createdAt: Date.now() };
+  const batch = writeBatch(db);
+  batch.set(doc(db, `sessions/${sessionId}/rounds/${await roundIdOf(sessionId)}/words/0`), entry);
+  batch.set(
+    doc(db, 'sessions', sessionId),
+    {
+      wordCount: 1,
+      recentWords: [entry],
+      activePlayerIndex: 1,
+      turnNumber: 1,
+      turnStartedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+  return batch.commit();
+}
+
+// Olive's story, with Cora as a co-host and Pia playing. `fields` are written over it.
+async function newStory(fields: StoreData = {}) {
+  signIn(olive.id);
+  const sessionId = await createSession(olive);
+  await seed(`sessions/${sessionId}`, {
+    players: [olive, cora, pia],
+    playerIds: [olive.id, cora.id, pia.id],
+    coHostIds: [cora.id],
+    ...fields,
+  });
+  return sessionId;
+}
+
+async function roundIdOf(sessionId: string) {
+  return ((await read(`sessions/${sessionId}`))?.roundId as string | undefined) ?? null;
+}
+
+// Olive's family, with Pia as a plain member.
+async function newFamily() {
+  signIn(olive.id);
+  const familyId = await createFamily(olive, 'The Oaks');
+  await seed(`families/${familyId}`, { members: [olive, pia], memberIds: [olive.id, pia.id] });
+  return familyId;
+}
+
+describeRules('firestore.rules', () => {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-fam-bam',
+      firestore: { rules: readFileSync(`${__dirname}/../../firestore.rules`, 'utf8') },
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+  });
+
+  afterAll(async () => {
+    setStoryStore(null);
+    await testEnv?.cleanup();
+  });
+
+  describe('session reads', () => {
+    it('shows a story that needs approval to its players only', async () => {
+      const sessionId = await newStory();
+
+      signIn(pia.id);
+      await expect(findSession(sessionId)).resolves.toMatchObject({ id: sessionId });
+      signIn(otto.id);
+      await expect(findSession(sessionId)).rejects.toBeInstanceOf(PrivateStoryError);
+      await expect(findSession('NOPE')).resolves.toBeNull();
+    });
+
+    it('shows open stories outside a family to everyone', async () => {
+      const sessionId = await newStory({ joinPolicy: 'open' });
+
+      signIn(otto.id);
+      await expect(findSession(sessionId)).resolves.toMatchObject({ id: sessionId });
+    });
+
+    it('lists only stories the user plays in or whose family they are in', async () => {
+      const familyId = await newFamily();
+      await newStory({ familyId });
+
+      signIn(pia.id);
+      await expect(getSessionsForUser(pia.id)).resolves.toHaveLength(1);
+      await expect(getSessionsForFamily(familyId)).resolves.toHaveLength(1);
+      signIn(otto.id);
+      await assertFails(getSessionsForFamily(familyId));
+      await expect(getSessionsForUser(otto.id)).resolves.toEqual([]);
+    });
+
+    it('keeps a hidden story’s words from players until the round ends', async () => {
+      const sessionId = await newStory({ status: 'playing', visibleWordCount: 1 });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      const roundId = await roundIdOf(sessionId);
+
+      signIn(pia.id);
+      await assertFails(getStoryWords(sessionId, roundId, 10));
+      signIn(cora.id);
+      await expect(getStoryWords(sessionId, roundId, 10)).resolves.toHaveLength(1);
+      await endSession(sessionId, cora.id);
+      signIn(pia.id);
+      await expect(getStoryWords(sessionId, roundId, 10)).resolves.toHaveLength(1);
+    });
+
+    it('keeps a hidden story’s thrown-away round from players, and shows a saved one', async () => {
+      const sessionId = await newStory({ status: 'playing', visibleWordCount: 1 });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      const discardedId = await roundIdOf(sessionId);
+      // The switch to a new round, without the delete that follows it.
+      await seed(`sessions/${sessionId}`, { roundId: 'next' });
+
+      signIn(pia.id);
+      await assertFails(getStoryWords(sessionId, discardedId, 10));
+      signIn(cora.id);
+      await expect(getStoryWords(sessionId, discardedId, 10)).resolves.toHaveLength(1);
+
+      const savedId = await newStory({ status: 'playing', visibleWordCount: 1 });
+      signIn(olive.id);
+      await addWordToSession(savedId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      const roundId = await roundIdOf(savedId);
+      await endSession(savedId, olive.id);
+      await finishSessionStory(savedId, olive.id, 'The end');
+      signIn(pia.id);
+      await expect(getStoryWords(savedId, roundId, 10)).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('createSession', () => {
+    it('lets a user start a story as its owner', async () => {
+      signIn(olive.id);
+      await assertSucceeds(createSession(olive, { starter: storyStarters[0] }));
+    });
+
+    it('turns down a story made in someone else’s name', async () => {
+      signIn(otto.id);
+      await assertFails(createSession(olive));
+    });
+
+    it('turns down a family story outside the creator’s families', async () => {
+      const familyId = await newFamily();
+      signIn(otto.id);
+      await assertFails(createSession(otto, { familyId }));
+    });
+  });
+
+  describe('joining', () => {
+    it('lets anyone join an open story, and players rename themselves', async () => {
+      const sessionId = await newStory({ joinPolicy: 'open' });
+
+      signIn(otto.id);
+      await assertSucceeds(addPlayerToSession(sessionId, otto));
+      await assertSucceeds(addPlayerToSession(sessionId, { ...otto, name: 'Otto the Great' }));
+      expect((await read(`sessions/${sessionId}`))?.playerIds).toContain(otto.id);
+    });
+
+    it('turns down joining a story that needs approval without one', async () => {
+      const sessionId = await newStory();
+
+      const db = signIn(otto.id);
+      await assertFails(
+        patchSession(db, sessionId, {
+          players: [olive, cora, pia, otto],
+          playerIds: [olive.id, cora.id, pia.id, otto.id],
+        })
+      );
+    });
+
+    it('turns down renaming another player', async () => {
+      const sessionId = await newStory();
+
+      const db = signIn(pia.id);
+      await assertFails(patchSession(db, sessionId, { players: [olive, { ...cora, name: 'Bob' }, pia] }));
+    });
+
+    it('leaves a request that only the requester and hosts can read', async () => {
+      const sessionId = await newStory();
+
+      signIn(otto.id);
+      await expect(requestToJoin(sessionId, otto)).resolves.toBe('requested');
+      const requestPath = `sessions/${sessionId}/joinRequests/${otto.id}`;
+      await assertSucceeds(getDoc(doc(signIn(otto.id), requestPath)));
+      await assertSucceeds(getDoc(doc(signIn(cora.id), requestPath)));
+      await assertFails(getDocs(collection(signIn(pia.id), `sessions/${sessionId}/joinRequests`)));
+    });
+
+    it('turns down a request in someone else’s name, or for an open story', async () => {
+      const openId = await newStory({ joinPolicy: 'open' });
+      const sessionId = await newStory();
+
+      const db = signIn(otto.id);
+      const joinRequest = { id: 'tess', name: 'Tess', requestedAt: Date.now() };
+      await assertFails(setDoc(doc(db, `sessions/${sessionId}/joinRequests/tess`), joinRequest));
+      await assertFails(setDoc(doc(db, `sessions/${openId}/joinRequests/${otto.id}`), { ...joinRequest, ...otto }));
+    });
+
+    it('lets the requester take their request back, but nobody else but a host', async () => {
+      const sessionId = await newStory();
+      signIn(otto.id);
+      await requestToJoin(sessionId, otto);
+
+      await assertFails(deleteDoc(doc(signIn(pia.id), `sessions/${sessionId}/joinRequests/${otto.id}`)));
+      signIn(otto.id);
+      await assertSucceeds(cancelJoinRequest(sessionId, otto.id));
+    });
+
+    it('lets a host approve a request', async () => {
+      const sessionId = await newStory();
+      signIn(otto.id);
+      await requestToJoin(sessionId, otto);
+
+      signIn(cora.id);
+      await assertSucceeds(approveJoinRequest(sessionId, cora.id, otto.id));
+      expect((await read(`sessions/${sessionId}`))?.playerIds).toContain(otto.id);
+      expect(await read(`sessions/${sessionId}/joinRequests/${otto.id}`)).toBeUndefined();
+    });
+
+    it('turns down a player approving a request', async () => {
+      const sessionId = await newStory();
+      signIn(otto.id);
+      await requestToJoin(sessionId, otto);
+
+      signIn(pia.id);
+      await assertFails(approveJoinRequest(sessionId, olive.id, otto.id));
+    });
+
+    it('lets a host deny a request, but not a player', async () => {
+      const sessionId = await newStory();
+      signIn(otto.id);
+      await requestToJoin(sessionId, otto);
+
+      signIn(pia.id);
+      await assertFails(denyJoinRequest(sessionId, olive.id, otto.id));
+      signIn(olive.id);
+      await assertSucceeds(denyJoinRequest(sessionId, olive.id, otto.id));
+    });
+  });
+
+  describe('invites', () => {
+    it('lets someone holding a live invite see and join the story', async () => {
+      const sessionId = await newStory();
+      signIn(olive.id);
+      const invite = await createInvite(sessionId, olive.id, 60_000);
+
+      signIn(otto.id);
+      await assertSucceeds(joinWithInvite(sessionId, invite.token, otto));
+      expect((await read(`sessions/${sessionId}`))?.playerIds).toContain(otto.id);
+    });
+
+    it('leaves no admission behind when the story turns the join down', async () => {
+      const sessionId = await newStory({ status: 'finished' });
+      signIn(olive.id);
+      const invite = await createInvite(sessionId, olive.id, null);
+
+      signIn(otto.id);
+      await expect(joinWithInvite(sessionId, invite.token, otto)).rejects.toThrow('has finished');
+      expect(await read(`sessions/${sessionId}/admissions/${otto.id}`)).toBeUndefined();
+    });
+
+    it('turns down an admission for an invite that doesn’t exist or has expired', async () => {
+      const sessionId = await newStory();
+      const expired = 'e'.repeat(20);
+      await seed(`sessions/${sessionId}/invites/${expired}`, {
+        token: expired,
+        createdBy: olive.id,
+        createdAt: Timestamp.now(),
+        expiresAt: Date.now() - 1000,
+      });
+
+      const db = signIn(otto.id);
+      const admission = doc(db, `sessions/${sessionId}/admissions/${otto.id}`);
+      await assertFails(setDoc(admission, { token: 'n'.repeat(20), usedAt: serverTimestamp() }));
+      await assertFails(setDoc(admission, { token: expired, usedAt: serverTimestamp() }));
+    });
+
+    it('lets hosts make and revoke invites, and not players', async () => {
+      const sessionId = await newStory();
+
+      signIn(pia.id);
+      await assertFails(createInvite(sessionId, olive.id, null));
+      signIn(cora.id);
+      const invite = await assertSucceeds(createInvite(sessionId, cora.id, null));
+      signIn(pia.id);
+      await assertFails(revokeInvite(sessionId, olive.id, invite.token));
+      signIn(cora.id);
+      await assertSucceeds(revokeInvite(sessionId, cora.id, invite.token));
+    });
+  });
+
+  describe('host settings', () => {
+    // Each setting, as a host changes it and as a player pretending to be the owner would.
+    const settings: [string, (sessionId: string, actorId: string) => Promise<unknown>][] = [
+      ['setJoinPolicy', (sessionId, actorId) => setJoinPolicy(sessionId, actorId, 'open')],
+      ['setStoryStarter', (sessionId, actorId) => setStoryStarter(sessionId, actorId, storyStarters[1])],
+      ['setStoryTemplate', (sessionId, actorId) => setStoryTemplate(sessionId, actorId, storyTemplates[0])],
+      ['setHiddenStory', (sessionId, actorId) => setHiddenStory(sessionId, actorId, 3)],
+      ['setContentFilter', (sessionId, actorId) => setContentFilter(sessionId, actorId, { contentFilter: 'off' })],
+      ['allowWord', (sessionId, actorId) => allowWord(sessionId, actorId, 'Zorp')],
+      ['setContributionMode', (sessionId, actorId) => setContributionMode(sessionId, actorId, { kind: 'sentence' })],
+      ['setTurnTimeLimit', (sessionId, actorId) => setTurnTimeLimit(sessionId, actorId, 60_000)],
+      [
+        'setEndConditions',
+        (sessionId, actorId) => setEndConditions(sessionId, actorId, { targetWordCount: 50, endsAt: null }),
+      ],
+      ['reorderPlayers', (sessionId, actorId) => reorderPlayers(sessionId, actorId, [pia.id, olive.id, cora.id])],
+      ['startSession', (sessionId, actorId) => startSession(sessionId, actorId)],
+    ];
+
+    it.each(settings)('%s: lets a co-host change it', async (_name, change) => {
+      const sessionId = await newStory();
+      signIn(cora.id);
+      await assertSucceeds(change(sessionId, cora.id));
+    });
+
+    it.each(settings)('%s: turns a player down', async (_name, change) => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      await assertFails(change(sessionId, olive.id));
+    });
+
+    it('turns down hiding more words than the session doc keeps', async () => {
+      const sessionId = await newStory();
+      const db = signIn(olive.id);
+      await assertFails(patchSession(db, sessionId, { visibleWordCount: 9 }));
+    });
+
+    it('lets a host move the story into their family, and not into someone else’s', async () => {
+      const familyId = await newFamily();
+      const sessionId = await newStory();
+
+      const db = signIn(cora.id);
+      await assertFails(patchSession(db, sessionId, { familyId }));
+      await expect(setStoryFamily(sessionId, cora.id, familyId)).rejects.toThrow('families you belong to');
+      signIn(olive.id);
+      await assertSucceeds(setStoryFamily(sessionId, olive.id, familyId));
+      signIn(cora.id);
+      await assertSucceeds(setStoryFamily(sessionId, cora.id, null));
+    });
+
+    it('lets only the owner hand the story on or pick co-hosts', async () => {
+      const sessionId = await newStory();
+
+      signIn(cora.id);
+      await assertFails(setCoHost(sessionId, olive.id, pia.id, true));
+      await assertFails(transferOwnership(sessionId, olive.id, cora.id));
+      signIn(olive.id);
+      await assertSucceeds(setCoHost(sessionId, olive.id, pia.id, true));
+      await assertSucceeds(transferOwnership(sessionId, olive.id, pia.id));
+    });
+  });
+
+  describe('players on a device', () => {
+    it('lets a player add someone who plays on their device', async () => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      await assertSucceeds(addLocalPlayer(sessionId, pia.id, 'Lou'));
+    });
+
+    it('turns down adding a local player to someone else’s device', async () => {
+      const sessionId = await newStory();
+      const db = signIn(pia.id);
+      await assertFails(
+        patchSession(db, sessionId, {
+          players: [olive, cora, pia, { id: `local:${olive.id}:abc`, name: 'Lou', managedBy: olive.id }],
+        })
+      );
+    });
+
+    it('lets a parent add their child when their settings allow public stories', async () => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      const child = await createChildProfile(pia.id, { name: 'Kit', avatar: '🦊', ageBand: '6-8' });
+      await setParentalSettings(pia.id, { canJoinPublicStories: true });
+
+      await assertSucceeds(addChildPlayer(sessionId, pia.id, child.id));
+    });
+
+    it('turns down a child in a story outside the family unless the parent allows it', async () => {
+      const sessionId = await newStory();
+      const db = signIn(pia.id);
+      const child = await createChildProfile(pia.id, { name: 'Kit', avatar: '🦊', ageBand: '6-8' });
+
+      await assertFails(
+        patchSession(db, sessionId, {
+          players: [olive, cora, pia, { id: `child:${pia.id}:${child.id}`, name: 'Kit', managedBy: pia.id }],
+        })
+      );
+    });
+
+    it('lets a family member add their child to a family story they haven’t joined', async () => {
+      const familyId = await newFamily();
+      const sessionId = await newStory({ familyId, players: [olive, cora], playerIds: [olive.id, cora.id] });
+      signIn(pia.id);
+      const child = await createChildProfile(pia.id, { name: 'Kit', avatar: '🦊', ageBand: '6-8' });
+
+      await assertSucceeds(addChildPlayer(sessionId, pia.id, child.id));
+    });
+  });
+
+  describe('turns', () => {
+    it('lets the active player add a word', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(olive.id);
+      await expect(addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 })).resolves.toBe('added');
+      expect(await read(`sessions/${sessionId}/rounds/${await roundIdOf(sessionId)}/words/0`)).toMatchObject({
+        word: 'Once',
+      });
+    });
+
+    it('turns down a word on someone else’s turn', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(pia.id);
+      await assertFails(addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 }));
+    });
+
+    it('turns down a word doc without the turn that goes with it', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      const db = signIn(olive.id);
+      const word = { index: 0, word: 'Once', authorId: olive.id, turn: 0, createdAt: Date.now() };
+      await assertFails(setDoc(doc(db, `sessions/${sessionId}/rounds/${await roundIdOf(sessionId)}/words/0`), word));
+    });
+
+    it('holds a caught word for a host, who can let it in', async () => {
+      const sessionId = await newStory({ status: 'playing', reviewFlaggedWords: true });
+      signIn(olive.id);
+      await expect(addWordToSession(sessionId, 'shit', { playerId: olive.id, expectedTurn: 0 })).resolves.toBe('held');
+
+      signIn(pia.id);
+      await assertFails(approveFlaggedWord(sessionId, olive.id, 0));
+      signIn(cora.id);
+      await assertSucceeds(approveFlaggedWord(sessionId, cora.id, 0));
+      expect((await read(`sessions/${sessionId}`))?.wordCount).toBe(1);
+    });
+
+    it('turns down a word while the turn’s caught word waits for a host', async () => {
+      const sessionId = await newStory({ status: 'playing', reviewFlaggedWords: true });
+      const heldId = await newStory({ status: 'playing', reviewFlaggedWords: true });
+      signIn(olive.id);
+      await addWordToSession(heldId, 'shit', { playerId: olive.id, expectedTurn: 0 });
+
+      const db = signIn(olive.id);
+      await assertSucceeds(writeFirstWord(db, sessionId, 'Once'));
+      await assertFails(writeFirstWord(db, heldId, 'Once'));
+    });
+
+    it('turns down holding a word on someone else’s turn', async () => {
+      const sessionId = await newStory({ status: 'playing', reviewFlaggedWords: true });
+      signIn(pia.id);
+      await assertFails(addWordToSession(sessionId, 'shit', { playerId: olive.id, expectedTurn: 0 }));
+    });
+
+    it('lets a host turn a held word down, and not a player', async () => {
+      const sessionId = await newStory({ status: 'playing', reviewFlaggedWords: true });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'shit', { playerId: olive.id, expectedTurn: 0 });
+
+      signIn(pia.id);
+      await assertFails(rejectFlaggedWord(sessionId, olive.id, 0));
+      signIn(cora.id);
+      await assertSucceeds(rejectFlaggedWord(sessionId, cora.id, 0));
+    });
+
+    it('lets the active player pass, and no one else', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+
+      signIn(pia.id);
+      await assertFails(passTurn(sessionId, { playerId: olive.id, expectedTurn: 0 }));
+      signIn(olive.id);
+      await assertSucceeds(passTurn(sessionId, { playerId: olive.id, expectedTurn: 0 }));
+    });
+
+    it('lets anyone skip a turn once it is overdue, and not before', async () => {
+      const overdueId = await newStory({
+        status: 'playing',
+        turnTimeLimitMs: 1000,
+        turnStartedAt: Timestamp.fromMillis(Date.now() - 60_000),
+      });
+      const sessionId = await newStory({ status: 'playing', turnTimeLimitMs: 60_000 });
+
+      const db = signIn(pia.id);
+      await expect(skipOverdueTurn(overdueId, 0)).resolves.toBe(true);
+      await assertFails(
+        patchSession(db, sessionId, { activePlayerIndex: 1, turnNumber: 1, turnStartedAt: serverTimestamp() })
+      );
+    });
+  });
+
+  describe('the lobby and the end', () => {
+    it('lets players tick only themselves as ready', async () => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      await assertSucceeds(setPlayerReady(sessionId, pia.id, true));
+      await assertFails(setPlayerReady(sessionId, cora.id, true));
+    });
+
+    it('lets a host end play, and not a player', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(pia.id);
+      await assertFails(endSession(sessionId, olive.id));
+      signIn(cora.id);
+      await assertSucceeds(endSession(sessionId, cora.id));
+    });
+
+    it('lets anyone end play once the end date has passed, and not before', async () => {
+      const dueId = await newStory({ status: 'playing', endsAt: Date.now() - 1000 });
+      const sessionId = await newStory({ status: 'playing', endsAt: Date.now() + 60_000 });
+
+      const db = signIn(pia.id);
+      await expect(endSessionIfDue(dueId)).resolves.toBe(true);
+      await assertFails(patchSession(db, sessionId, { status: 'finished' }));
+    });
+
+    it('lets a host save the round and start the next in one write', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      await endSession(sessionId, olive.id);
+
+      signIn(pia.id);
+      await assertFails(finishSessionStory(sessionId, olive.id, 'Stolen'));
+      signIn(cora.id);
+      await assertSucceeds(finishSessionStory(sessionId, cora.id, 'The end'));
+      expect(await read(`sessions/${sessionId}/archive/1`)).toMatchObject({ title: 'The end', wordCount: 1 });
+      expect(await read(`sessions/${sessionId}`)).toMatchObject({ roundNumber: 2, wordCount: 0, status: 'lobby' });
+    });
+
+    it('lets the saved round credit a player who left during it', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      signIn(cora.id);
+      await addWordToSession(sessionId, 'upon', { playerId: cora.id, expectedTurn: 1 });
+      await assertSucceeds(leaveSession(sessionId, cora.id));
+
+      signIn(olive.id);
+      await endSession(sessionId, olive.id);
+      await assertSucceeds(finishSessionStory(sessionId, olive.id, 'Once upon'));
+      expect((await read(`sessions/${sessionId}/archive/1`))?.participants).toEqual([olive, cora]);
+      expect((await read(`sessions/${sessionId}`))?.formerPlayers).toEqual([]);
+    });
+
+    it('keeps past rounds from outsiders', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      await endSession(sessionId, olive.id);
+      await finishSessionStory(sessionId, olive.id, 'The end');
+
+      await assertSucceeds(getDoc(doc(signIn(pia.id), `sessions/${sessionId}/archive/1`)));
+      await assertFails(getDoc(doc(signIn(otto.id), `sessions/${sessionId}/archive/1`)));
+    });
+
+    it('lets a host throw the round away, and not a player', async () => {
+      const sessionId = await newStory({ status: 'playing' });
+      signIn(olive.id);
+      await addWordToSession(sessionId, 'Once', { playerId: olive.id, expectedTurn: 0 });
+      const roundId = await roundIdOf(sessionId);
+
+      signIn(pia.id);
+      await assertFails(resetSessionStory(sessionId, olive.id));
+      signIn(olive.id);
+      await assertSucceeds(resetSessionStory(sessionId, olive.id));
+      expect(await roundIdOf(sessionId)).not.toBe(roundId);
+    });
+
+    it('upgrades a legacy story’s words, and only to the same words', async () => {
+      await seed('sessions/OLD1', {
+        players: [olive, pia],
+        playerIds: [olive.id, pia.id],
+        activePlayerIndex: 0,
+        storyWords: ['Once', 'upon'],
+      });
+      await seed('sessions/OLD2', {
+        players: [olive, pia],
+        playerIds: [olive.id, pia.id],
+        activePlayerIndex: 0,
+        storyWords: ['Once', 'upon'],
+      });
+
+      const db = signIn(pia.id);
+      await assertSucceeds(migrateSessionWords('OLD1'));
+      expect(await read('sessions/OLD1')).toMatchObject({ wordCount: 2, turnNumber: 2 });
+      await assertFails(
+        patchSession(db, 'OLD2', { storyWords: deleteField(), wordCount: 5, recentWords: [], turnNumber: 2 })
+      );
+    });
+  });
+
+  describe('leaving', () => {
+    it('lets a player leave with the players on their device', async () => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      await addLocalPlayer(sessionId, pia.id, 'Lou');
+
+      await assertSucceeds(leaveSession(sessionId, pia.id));
+      expect((await read(`sessions/${sessionId}`))?.players).toEqual([olive, cora]);
+    });
+
+    it('turns down making someone else leave', async () => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      await assertFails(leaveSession(sessionId, cora.id));
+    });
+
+    it('lets a host remove a player, and not a player remove a host', async () => {
+      const sessionId = await newStory();
+      signIn(pia.id);
+      await assertFails(removePlayerFromSession(sessionId, olive.id, cora.id));
+      signIn(cora.id);
+      await assertSucceeds(removePlayerFromSession(sessionId, cora.id, pia.id));
+    });
+  });
+
+  describe('families', () => {
+    it('shows a family to its members only', async () => {
+      const familyId = await newFamily();
+
+      signIn(pia.id);
+      await expect(getFamily(familyId)).resolves.toMatchObject({ name: 'The Oaks' });
+      await expect(getFamiliesForUser(pia.id)).resolves.toHaveLength(1);
+      const db = signIn(otto.id);
+      await assertFails(getFamily(familyId));
+      await assertFails(getDocs(collection(db, 'families')));
+      await expect(getFamiliesForUser(otto.id)).resolves.toEqual([]);
+      await expect(getFamily('missing')).resolves.toBeNull();
+    });
+
+    it('lets a user start a family, and not in someone else’s name', async () => {
+      signIn(olive.id);
+      await assertSucceeds(createFamily(olive, 'The Oaks'));
+      signIn(otto.id);
+      await assertFails(createFamily(olive, 'The Oaks'));
+    });
+
+    it('lets the owner make and revoke invite codes, and not a plain member', async () => {
+      const familyId = await newFamily();
+
+      signIn(pia.id);
+      await assertFails(createFamilyInvite(familyId, olive.id));
+      signIn(olive.id);
+      await assertSucceeds(createFamilyInvite(familyId, olive.id));
+      signIn(pia.id);
+      await assertFails(revokeFamilyInvite(familyId, olive.id));
+      signIn(olive.id);
+      await assertSucceeds(revokeFamilyInvite(familyId, olive.id));
+    });
+
+    it('keeps the invite code to members', async () => {
+      const familyId = await newFamily();
+      signIn(olive.id);
+      await createFamilyInvite(familyId, olive.id);
+
+      signIn(pia.id);
+      await expect(getFamilyInviteCode(familyId)).resolves.toMatch(/^[a-z0-9]{20}$/);
+      signIn(otto.id);
+      await assertFails(getFamilyInviteCode(familyId));
+    });
+
+    it('lets someone with the code join, and not without it', async () => {
+      const familyId = await newFamily();
+      signIn(olive.id);
+      const code = await createFamilyInvite(familyId, olive.id);
+
+      const db = signIn(otto.id);
+      await assertFails(
+        setDoc(
+          doc(db, 'families', familyId),
+          { members: [olive, pia, otto], memberIds: [olive.id, pia.id, otto.id], updatedAt: serverTimestamp() },
+          { merge: true }
+        )
+      );
+      await assertSucceeds(joinFamily(code, otto));
+    });
+
+    it('turns down an invite code for someone else’s family', async () => {
+      const familyId = await newFamily();
+      const db = signIn(otto.id);
+      await assertFails(
+        setDoc(doc(db, 'familyInvites', 'c'.repeat(20)), { familyId, createdBy: otto.id, createdAt: serverTimestamp() })
+      );
+    });
+
+    it('lets members leave, and not take others with them', async () => {
+      const familyId = await newFamily();
+      signIn(pia.id);
+      await assertFails(leaveFamily(familyId, olive.id));
+      await assertSucceeds(leaveFamily(familyId, pia.id));
+    });
+
+    it('lets the owner remove members and pick admins, and not a plain member', async () => {
+      const familyId = await newFamily();
+      await seed(`families/${familyId}`, {
+        members: [olive, pia, cora],
+        memberIds: [olive.id, pia.id, cora.id],
+      });
+
+      signIn(pia.id);
+      await assertFails(setFamilyAdmin(familyId, olive.id, pia.id, true));
+      await assertFails(removeFamilyMember(familyId, olive.id, cora.id));
+      signIn(olive.id);
+      await assertSucceeds(setFamilyAdmin(familyId, olive.id, pia.id, true));
+      await assertSucceeds(removeFamilyMember(familyId, olive.id, cora.id));
+    });
+  });
+
+  describe('a parent’s account', () => {
+    it('lets parents manage their own child profiles and settings', async () => {
+      signIn(olive.id);
+      const child = await assertSucceeds(createChildProfile(olive.id, { name: 'Kit', avatar: '🦊', ageBand: '6-8' }));
+      await assertSucceeds(updateChildProfile(olive.id, child.id, { name: 'Kitty', avatar: '🐻', ageBand: '9-12' }));
+      await assertSucceeds(setParentalSettings(olive.id, { contentFilter: 'family' }));
+      await assertSucceeds(deleteChildProfile(olive.id, child.id));
+    });
+
+    it('keeps other users out of a parent’s account', async () => {
+      signIn(olive.id);
+      const child = await createChildProfile(olive.id, { name: 'Kit', avatar: '🦊', ageBand: '6-8' });
+
+      const db = signIn(otto.id);
+      await assertFails(getDoc(doc(db, `users/${olive.id}/children/${child.id}`)));
+      await assertFails(deleteChildProfile(olive.id, child.id));
+      await assertFails(
+        setDoc(doc(db, `users/${olive.id}`), { parentalSettings: { contentFilter: 'off', canJoinPublicStories: true } })
+      );
+    });
+
+    it('turns down child profiles and settings the app wouldn’t write', async () => {
+      const db = signIn(olive.id);
+      await assertFails(
+        setDoc(doc(db, `users/${olive.id}/children/kit`), {
+          name: 'Kit',
+          avatar: '🦊',
+          ageBand: 'adult',
+          createdAt: serverTimestamp(),
+        })
+      );
+      await assertFails(
+        setDoc(doc(db, `users/${olive.id}`), {
+          parentalSettings: { contentFilter: 'off', canJoinPublicStories: true },
+          isAdmin: true,
+        })
+      );
+    });
+
+    it('lets users save and delete their own starters only', async () => {
+      signIn(olive.id);
+      const starter = await assertSucceeds(saveStarter(olive.id, storyStarters[0]));
+
+      const db = signIn(otto.id);
+      await assertFails(deleteSavedStarter(olive.id, starter.id));
+      await assertFails(
+        setDoc(doc(db, `users/${olive.id}/starters/abc`), { ...storyStarters[0], createdAt: serverTimestamp() })
+      );
+      signIn(olive.id);
+      await assertSucceeds(deleteSavedStarter(olive.id, starter.id));
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { generateJoinCode, normalizeSessionId } from '../join-code';
+
+describe('generateJoinCode', () => {
+  it('makes codes like BLUE-TIGER-42', () => {
+    for (let attempt = 0; attempt < 50; attempt += 1) {
+      expect(generateJoinCode()).toMatch(/^[A-Z]+-[A-Z]+-[1-9]\d$/);
+    }
+  });
+});
+
+describe('normalizeSessionId', () => {
+  it('upper-cases typed join codes and turns spaces and underscores into dashes', () => {
+    expect(normalizeSessionId(' blue tiger 42 ')).toBe('BLUE-TIGER-42');
+    expect(normalizeSessionId('Blue_Tiger  42')).toBe('BLUE-TIGER-42');
+    expect(normalizeSessionId(generateJoinCode().toLowerCase())).toMatch(/^[A-Z]+-[A-Z]+-\d{2}$/);
+  });
+
+  it('only trims older free-form ids', () => {
+    expect(normalizeSessionId('  shared-story ')).toBe('shared-story');
+    expect(normalizeSessionId('blue tiger 420')).toBe('blue tiger 420');
+  });
+});
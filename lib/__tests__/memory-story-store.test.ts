@@ -0,0 +1,80 @@
+import { createMemoryStoryStore } from '../memory-story-store';
+import { isPermissionDenied, StoreAccessError, type StoreDocument } from '../story-store';
+
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('memory store access', () => {
+  it('turns down reads and writes the access rules deny', async () => {
+    const store = createMemoryStoryStore(
+      { 'secret/doc': { value: 1 } },
+      { canRead: (path) => !path.startsWith('secret'), canWrite: (path) => !path.startsWith('secret') }
+    );
+
+    await expect(store.get('secret/doc')).rejects.toBeInstanceOf(StoreAccessError);
+    await expect(store.query('secret')).rejects.toBeInstanceOf(StoreAccessError);
+    await expect(store.set('secret/doc', { value: 2 })).rejects.toBeInstanceOf(StoreAccessError);
+    await expect(store.get('open/doc')).resolves.toBeNull();
+  });
+
+  it('commits none of a transaction when one write is denied', async () => {
+    const store = createMemoryStoryStore({}, { canWrite: (path) => path !== 'locked/doc' });
+
+    const run = store.runTransaction(async (transaction) => {
+      transaction.set('open/doc', { value: 1 });
+      transaction.set('locked/doc', { value: 1 });
+    });
+
+    await expect(run).rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(store.get('open/doc')).resolves.toBeNull();
+  });
+
+  it('reports a denied subscription through onError', async () => {
+    const store = createMemoryStoryStore({ 'secret/doc': { value: 1 } }, { canRead: () => false });
+    const onChange = jest.fn();
+    const onError = jest.fn();
+
+    store.subscribe('secret/doc', onChange, onError);
+    store.subscribeQuery('secret', {}, onChange, onError);
+    await flush();
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(isPermissionDenied(onError.mock.calls[0][0])).toBe(true);
+  });
+
+  it('stops a listener once it loses access', async () => {
+    let allowed = true;
+    const store = createMemoryStoryStore({ 'stories/a': { value: 1 } }, { canRead: () => allowed });
+    const onChange = jest.fn<void, [StoreDocument[]]>();
+    const onError = jest.fn();
+
+    store.subscribeQuery('stories', {}, onChange, onError);
+    await flush();
+    allowed = false;
+    await store.set('stories/a', { value: 2 });
+    await store.set('stories/a', { value: 3 });
+    await flush();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds arrayUnion values that are not already in the array', async () => {
+    const store = createMemoryStoryStore({ 'families/a': { memberIds: ['olive'], members: [{ id: 'olive' }] } });
+
+    await store.set(
+      'families/a',
+      { memberIds: store.arrayUnion('olive', 'pia'), members: store.arrayUnion({ id: 'olive' }, { id: 'pia' }) },
+      { merge: true }
+    );
+    await store.set('families/b', { memberIds: store.arrayUnion('otto') });
+
+    await expect(store.get('families/a')).resolves.toEqual({
+      memberIds: ['olive', 'pia'],
+      members: [{ id: 'olive' }, { id: 'pia' }],
+    });
+    await expect(store.get('families/b')).resolves.toEqual({ memberIds: ['otto'] });
+  });
+});
@@ -0,0 +1,45 @@
+import { formatStory, formatStoryPreview, formatStoryText, newParagraphToken } from '../story-format';
+
+describe('formatStoryText', () => {
+  it('capitalizes sentence starts and attaches punctuation to the word before it', () => {
+    expect(formatStoryText(['once', 'upon', 'a', 'time', ',', 'a', 'dog', '.', 'the', 'end', '!'])).toBe(
+      'Once upon a time, a dog. The end!'
+    );
+  });
+
+  it('capitalizes past opening quotes and keeps the next word against them', () => {
+    expect(formatStoryText(['she', 'said', '.', '"hello', 'there!"', 'he', 'said'])).toBe(
+      'She said. "Hello there!" He said'
+    );
+    expect(formatStoryText(['a', '(', 'tiny', ')', 'cat'])).toBe('A (tiny) cat');
+  });
+
+  it('starts a paragraph on a paragraph turn, skipping empty ones', () => {
+    expect(formatStoryText([newParagraphToken, 'one', newParagraphToken, newParagraphToken, 'two'])).toBe(
+      'One\n\nTwo'
+    );
+  });
+
+  it('leaves the first word alone when the story starts earlier', () => {
+    expect(formatStoryText(['dog', 'ran', '.'], { partial: true })).toBe('dog ran.');
+  });
+});
+
+describe('formatStory', () => {
+  it('keeps each token’s entry and drops blank ones', () => {
+    const entries = [{ word: 'hi' }, { word: ' ' }, { word: '!' }];
+    expect(formatStory(entries, (entry) => entry.word)).toEqual([
+      [
+        { entry: entries[0], text: 'Hi', spaceBefore: false },
+        { entry: entries[2], text: '!', spaceBefore: false },
+      ],
+    ]);
+  });
+});
+
+describe('formatStoryPreview', () => {
+  it('adds an ellipsis only when earlier words are missing', () => {
+    expect(formatStoryPreview(['the', 'end', '.'], 3)).toBe('The end.');
+    expect(formatStoryPreview(['the', 'end', '.'], 10)).toBe('…the end.');
+  });
+});
@@ -0,0 +1,134 @@
+import { createMemoryStoryStore } from '../memory-story-store';
+import {
+  addWordToSession,
+  createSession,
+  endSession,
+  findSession,
+  finishSessionStory,
+  getArchivedStories,
+  leaveSession,
+  NotYourTurnError,
+  removePlayerFromSession,
+  reorderPlayers,
+  StaleTurnError,
+  type Player,
+} from '../story-session';
+import { getStoryStore, setStoryStore, type StoreData } from '../story-store';
+
+const ann: Player = { id: 'ann', name: 'Ann', joinedAt: 1 };
+const ben: Player = { id: 'ben', name: 'Ben', joinedAt: 2 };
+const cat: Player = { id: 'cat', name: 'Cat', joinedAt: 3 };
+
+// Ann's story with Ben and Cat, in that order. `fields` are written over it.
+async function newStory(fields: StoreData = {}) {
+  const sessionId = await createSession(ann);
+  await getStoryStore().set(
+    `sessions/${sessionId}`,
+    { players: [ann, ben, cat], playerIds: [ann.id, ben.id, cat.id], ...fields },
+    { merge: true }
+  );
+  return sessionId;
+}
+
+async function readStory(sessionId: string) {
+  const session = await findSession(sessionId);
+  if (!session) throw new Error(`No story ${sessionId}`);
+  return { ...session, playerIds: session.players.map((player) => player.id) };
+}
+
+beforeEach(() => {
+  setStoryStore(createMemoryStoryStore());
+});
+
+afterAll(() => {
+  setStoryStore(null);
+});
+
+describe('word turns', () => {
+  it('adds the active player’s word and passes the turn on', async () => {
+    const sessionId = await newStory({ status: 'playing', activePlayerIndex: 2 });
+
+    await expect(addWordToSession(sessionId, 'Once', { playerId: cat.id, expectedTurn: 0 })).resolves.toBe('added');
+
+    expect(await readStory(sessionId)).toMatchObject({ wordCount: 1, turnNumber: 1, activePlayerIndex: 0 });
+  });
+
+  it('turns down a word from someone whose turn it isn’t', async () => {
+    const sessionId = await newStory({ status: 'playing' });
+
+    await expect(addWordToSession(sessionId, 'Once', { playerId: ben.id, expectedTurn: 0 })).rejects.toBeInstanceOf(
+      NotYourTurnError
+    );
+  });
+
+  it('turns down a word typed for a turn that has passed', async () => {
+    const sessionId = await newStory({ status: 'playing' });
+    await addWordToSession(sessionId, 'Once', { playerId: ann.id, expectedTurn: 0 });
+
+    await expect(addWordToSession(sessionId, 'upon', { playerId: ben.id, expectedTurn: 0 })).rejects.toBeInstanceOf(
+      StaleTurnError
+    );
+    expect(await readStory(sessionId)).toMatchObject({ wordCount: 1, activePlayerIndex: 1 });
+  });
+});
+
+describe('the turn when players change', () => {
+  it('passes the turn to whoever sat after a player who leaves on their turn', async () => {
+    const sessionId = await newStory({ status: 'playing', activePlayerIndex: 1 });
+
+    await leaveSession(sessionId, ben.id);
+
+    expect(await readStory(sessionId)).toMatchObject({ playerIds: [ann.id, cat.id], activePlayerIndex: 1 });
+  });
+
+  it('goes back round to the first player when the last one leaves on their turn', async () => {
+    const sessionId = await newStory({ status: 'playing', activePlayerIndex: 2 });
+
+    await leaveSession(sessionId, cat.id);
+
+    expect(await readStory(sessionId)).toMatchObject({ playerIds: [ann.id, ben.id], activePlayerIndex: 0 });
+  });
+
+  it('keeps the turn with the same player when someone before them is removed', async () => {
+    const sessionId = await newStory({ status: 'playing', activePlayerIndex: 2 });
+
+    await removePlayerFromSession(sessionId, ann.id, ben.id);
+
+    expect(await readStory(sessionId)).toMatchObject({ playerIds: [ann.id, cat.id], activePlayerIndex: 1 });
+  });
+
+  it('keeps the turn with the same player when the order changes', async () => {
+    const sessionId = await newStory({ activePlayerIndex: 1 });
+
+    await reorderPlayers(sessionId, ann.id, [cat.id, ann.id, ben.id]);
+
+    expect(await readStory(sessionId)).toMatchObject({ playerIds: [cat.id, ann.id, ben.id], activePlayerIndex: 2 });
+  });
+
+  it('hands the story to the longest-standing player when the owner leaves', async () => {
+    const sessionId = await newStory({
+      players: [ann, cat, ben],
+      playerIds: [ann.id, cat.id, ben.id],
+      coHostIds: [ben.id, cat.id],
+    });
+
+    await leaveSession(sessionId, ann.id);
+
+    expect(await readStory(sessionId)).toMatchObject({ ownerId: ben.id, coHostIds: [cat.id] });
+  });
+});
+
+describe('saving a round', () => {
+  it('credits players who wrote words and then left', async () => {
+    const sessionId = await newStory({ status: 'playing' });
+    await addWordToSession(sessionId, 'Once', { playerId: ann.id, expectedTurn: 0 });
+    await addWordToSession(sessionId, 'upon', { playerId: ben.id, expectedTurn: 1 });
+    await leaveSession(sessionId, ben.id);
+    await endSession(sessionId, ann.id);
+
+    await finishSessionStory(sessionId, ann.id, 'Once upon');
+
+    const [story] = await getArchivedStories(sessionId);
+    expect(story.participants).toEqual([ann, ben]);
+  });
+});
@@ -0,0 +1,92 @@
+import { readFileSync } from 'fs';
+import { initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import type { Firestore } from 'firebase/firestore';
+
+import { createFirestoreStoryStore } from '../firestore-story-store';
+import { createMemoryStoryStore } from '../memory-story-store';
+import type { StoryStore } from '../story-store';
+import { hasFirestoreEmulator } from './emulator';
+
+type Counter = { value: number };
+
+// The Firestore backend runs against the emulator, so only under `npm test`.
+const backends: [string, () => Promise<StoryStore>][] = [['memory', async () => createMemoryStoryStore()]];
+
+let testEnv: RulesTestEnvironment | undefined;
+
+if (hasFirestoreEmulator('Firestore store tests')) {
+  backends.push([
+    'firestore',
+    async () => {
+      testEnv ??= await initializeTestEnvironment({
+        projectId: 'demo-fam-bam',
+        firestore: { rules: readFileSync(`${__dirname}/open.rules`, 'utf8') },
+      });
+      await testEnv.clearFirestore();
+      const db = testEnv.unauthenticatedContext().firestore() as unknown as Firestore;
+      return createFirestoreStoryStore(() => db);
+    },
+  ]);
+}
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+describe.each(backends)('%s store transactions', (_name, createStore) => {
+  let store: StoryStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+    await store.set('tests/counter', { value: 0 });
+  });
+
+  it('retries when a document it read changes before the commit', async () => {
+    let attempts = 0;
+
+    await store.runTransaction(async (transaction) => {
+      attempts += 1;
+      const counter = await transaction.get<Counter>('tests/counter');
+      if (attempts === 1) {
+        await store.set('tests/counter', { value: 10 });
+      }
+      transaction.set('tests/counter', { value: (counter?.value ?? 0) + 1 });
+    });
+
+    expect(attempts).toBe(2);
+    expect(await store.get('tests/counter')).toEqual({ value: 11 });
+  });
+
+  it('turns down a read after a write', async () => {
+    const run = store.runTransaction(async (transaction) => {
+      transaction.set('tests/counter', { value: 1 });
+      await transaction.get('tests/other');
+    });
+
+    await expect(run).rejects.toThrow(/all reads to be executed before all writes/);
+    expect(await store.get('tests/counter')).toEqual({ value: 0 });
+  });
+
+  it('reads the committed state, not its own pending writes', async () => {
+    const seen = await store.runTransaction(async (transaction) => {
+      const counter = await transaction.get<Counter>('tests/counter');
+      transaction.set('tests/counter', { value: (counter?.value ?? 0) + 1 });
+      return counter;
+    });
+
+    expect(seen).toEqual({ value: 0 });
+    expect(await store.get('tests/counter')).toEqual({ value: 1 });
+  });
+
+  it('writes nothing when the transaction throws', async () => {
+    const run = store.runTransaction(async (transaction) => {
+      transaction.set('tests/counter', { value: 1 });
+      transaction.set('tests/other', { value: 1 });
+      throw new Error('changed my mind');
+    });
+
+    await expect(run).rejects.toThrow('changed my mind');
+    expect(await store.get('tests/counter')).toEqual({ value: 0 });
+    expect(await store.get('tests/other')).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { fillTemplate, getBlanks, parseTemplate, storyTemplates } from '../story-template';
+
+describe('parseTemplate', () => {
+  it('numbers blanks in order, including at the very start and end', () => {
+    expect(parseTemplate('[animal] met a [adjective] [noun]')).toEqual([
+      { kind: 'blank', blank: 'animal', index: 0 },
+      { kind: 'text', text: ' met a ' },
+      { kind: 'blank', blank: 'adjective', index: 1 },
+      { kind: 'text', text: ' ' },
+      { kind: 'blank', blank: 'noun', index: 2 },
+    ]);
+  });
+
+  it('reads a misspelt blank as a noun and leaves other brackets as text', () => {
+    expect(getBlanks('A [nuon] and a [Noun] [1]')).toEqual(['noun']);
+    expect(parseTemplate('No blanks here.')).toEqual([{ kind: 'text', text: 'No blanks here.' }]);
+  });
+
+  it('finds at least one blank in every bundled template', () => {
+    storyTemplates.forEach((template) => expect(getBlanks(template.text).length).toBeGreaterThan(0));
+  });
+});
+
+describe('fillTemplate', () => {
+  it('puts answers in their blanks and marks missing ones', () => {
+    expect(fillTemplate('[animal] ate [number] [plural-noun].', ['A cat', '3'])).toBe('A cat ate 3 ____.');
+    expect(fillTemplate('"[silly-word]!"', ['Zoinks'])).toBe('"Zoinks!"');
+  });
+});
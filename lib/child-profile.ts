@@ -0,0 +1,177 @@
+import { normalizeContentFilter, type ContentFilterLevel } from './content-filter';
+import { getStoryStore, toMillis, type StoryTransaction } from './story-store';
+
+/**
+ * A kid who plays on a parent's login. Kept in `users/{parentId}/children/{id}`; in a
+ * story they become a player managed by the parent, like a pass-and-play player.
+ */
+export type ChildProfile = {
+  id: string;
+  name: string;
+  /** One of `childAvatars`. */
+  avatar: string;
+  ageBand: AgeBand;
+  createdAt: number | null;
+};
+
+export type AgeBand = 'under-6' | '6-8' | '9-12' | '13-17';
+
+export const ageBands: AgeBand[] = ['under-6', '6-8', '9-12', '13-17'];
+
+export const childAvatars = ['🦊', '🐻', '🐼', '🐸', '🦄', '🐙', '🦖', '🐝'];
+
+/** Set once on the parent's account; every child profile follows them. */
+export type ParentalSettings = {
+  /** The least careful filter a child plays under, whatever the story's setting. */
+  contentFilter: ContentFilterLevel;
+  /** Whether children may join stories outside the parent's families. */
+  canJoinPublicStories: boolean;
+};
+
+// Kids get the careful options until a parent says otherwise.
+export const defaultParentalSettings: ParentalSettings = {
+  contentFilter: 'young-kids',
+  canJoinPublicStories: false,
+};
+
+type ChildProfileDoc = Omit<ChildProfile, 'id' | 'createdAt'> & {
+  createdAt?: unknown;
+};
+
+/** The parent's account doc, `users/{uid}`. */
+type ParentDoc = {
+  parentalSettings?: Partial<ParentalSettings>;
+};
+
+const usersCollectionName = 'users';
+const childrenCollectionName = 'children';
+const childPlayerPrefix = 'child:';
+const maxChildNameLength = 40;
+const maxChildProfiles = 8;
+
+function getParentPath(parentId: string) {
+  return `${usersCollectionName}/${parentId}`;
+}
+
+function getChildrenPath(parentId: string) {
+  return `${getParentPath(parentId)}/${childrenCollectionName}`;
+}
+
+export function getChildProfilePath(parentId: string, childId: string) {
+  return `${getChildrenPath(parentId)}/${childId}`;
+}
+
+/** The story player id for a child: stable, so the same child can't join a story twice. */
+export function getChildPlayerId(parentId: string, childId: string) {
+  return `${childPlayerPrefix}${parentId}:${childId}`;
+}
+
+export function isChildPlayerId(playerId: string) {
+  return playerId.startsWith(childPlayerPrefix);
+}
+
+function readChildProfile(id: string, data: ChildProfileDoc): ChildProfile {
+  return {
+    id,
+    name: data.name,
+    avatar: data.avatar ?? childAvatars[0],
+    ageBand: data.ageBand ?? 'under-6',
+    createdAt: toMillis(data.createdAt),
+  };
+}
+
+function readParentalSettings(data: ParentDoc | null): ParentalSettings {
+  const settings = { ...defaultParentalSettings, ...data?.parentalSettings };
+  return { ...settings, contentFilter: normalizeContentFilter(settings.contentFilter) };
+}
+
+function cleanChildName(name: string) {
+  const cleaned = name.trim().replace(/\s+/g, ' ');
+  if (!cleaned) {
+    throw new Error('Give the child profile a name.');
+  }
+  return cleaned.slice(0, maxChildNameLength);
+}
+
+function checkChildDetails({ avatar, ageBand }: Pick<ChildProfile, 'avatar' | 'ageBand'>) {
+  if (!childAvatars.includes(avatar)) {
+    throw new Error('Pick one of the avatars.');
+  }
+  if (!ageBands.includes(ageBand)) {
+    throw new Error('Pick an age band.');
+  }
+}
+
+/** The parent's child profiles, oldest first. */
+export async function getChildProfiles(parentId: string) {
+  const results = await getStoryStore().query<ChildProfileDoc>(getChildrenPath(parentId), {
+    orderBy: { field: 'createdAt', direction: 'asc' },
+  });
+  return results.map(({ id, data }) => readChildProfile(id, data));
+}
+
+/** Reads one child profile inside `transaction`, so it can guard a story write. */
+export async function getChildProfileInTransaction(transaction: StoryTransaction, parentId: string, childId: string) {
+  const data = await transaction.get<ChildProfileDoc>(getChildProfilePath(parentId, childId));
+  return data ? readChildProfile(childId, data) : null;
+}
+
+/** Adds a child profile to the parent's account. Resolves to the new profile. */
+export async function createChildProfile(
+  parentId: string,
+  details: Pick<ChildProfile, 'name' | 'avatar' | 'ageBand'>
+): Promise<ChildProfile> {
+  const store = getStoryStore();
+  const name = cleanChildName(details.name);
+  checkChildDetails(details);
+
+  const existing = await getChildProfiles(parentId);
+  if (existing.length >= maxChildProfiles) {
+    throw new Error(`You can have up to ${maxChildProfiles} child profiles.`);
+  }
+
+  // Lowercase letters and digits only, so player ids built from it stay easy to check in the rules.
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  await store.set(getChildProfilePath(parentId, id), {
+    name,
+    avatar: details.avatar,
+    ageBand: details.ageBand,
+    createdAt: store.serverTimestamp(),
+  });
+  return { id, name, avatar: details.avatar, ageBand: details.ageBand, createdAt: Date.now() };
+}
+
+/** Changes a child's name, avatar or age band. Stories they already joined keep the old name. */
+export async function updateChildProfile(
+  parentId: string,
+  childId: string,
+  details: Pick<ChildProfile, 'name' | 'avatar' | 'ageBand'>
+) {
+  const name = cleanChildName(details.name);
+  checkChildDetails(details);
+  await getStoryStore().set(
+    getChildProfilePath(parentId, childId),
+    { name, avatar: details.avatar, ageBand: details.ageBand },
+    { merge: true }
+  );
+}
+
+/** Deletes a child profile. They stay in stories they joined until removed there. */
+export async function deleteChildProfile(parentId: string, childId: string) {
+  await getStoryStore().delete(getChildProfilePath(parentId, childId));
+}
+
+export async function getParentalSettings(parentId: string) {
+  return readParentalSettings(await getStoryStore().get<ParentDoc>(getParentPath(parentId)));
+}
+
+export async function getParentalSettingsInTransaction(transaction: StoryTransaction, parentId: string) {
+  return readParentalSettings(await transaction.get<ParentDoc>(getParentPath(parentId)));
+}
+
+/** Saves settings every child profile on the account follows. */
+export async function setParentalSettings(parentId: string, settings: Partial<ParentalSettings>) {
+  const next = { ...(await getParentalSettings(parentId)), ...settings };
+  await getStoryStore().set(getParentPath(parentId), { parentalSettings: next }, { merge: true });
+  return next;
+}
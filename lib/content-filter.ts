@@ -0,0 +1,272 @@
+/**
+ * How careful a story is about words. `family` blocks swearing, slurs and sexual words;
+ * `young-kids` also blocks milder rude words. Stored on the session doc as `contentFilter`.
+ */
+export type ContentFilterLevel = 'off' | 'family' | 'young-kids';
+
+export const contentFilterLevels: ContentFilterLevel[] = ['off', 'family', 'young-kids'];
+
+export const defaultContentFilter: ContentFilterLevel = 'family';
+
+type Blocklist = {
+  family: string[];
+  youngKids: string[];
+};
+
+// Whole words only, each listed with the forms worth catching, so "class", "cones" or
+// "Scunthorpe" never trip the filter. Stretched letters ("shiiit") and starred-out
+// letters ("f*ck") are matched automatically.
+const blocklists: Record<string, Blocklist> = {
+  en: {
+    family: [
+      'arse arses',
+      'arsehole arseholes',
+      'ass asses',
+      'asshole assholes',
+      'bastard bastards',
+      'bitch bitches bitching bitchy',
+      'bollocks',
+      'boob boobs boobies booby',
+      'cock cocks',
+      'cum cums cumming',
+      'cunt cunts',
+      'dick dicks dickhead dickheads',
+      'dildo dildos',
+      'douche douches douchebag douchebags',
+      'fag fags faggot faggots',
+      'fuck fucks fucked fucker fuckers fucking fuckin',
+      'horny',
+      'jizz',
+      'motherfucker motherfuckers motherfucking',
+      'nigga niggas nigger niggers',
+      'penis penises',
+      'piss pissed pisses pissing',
+      'porn porno',
+      'pussy pussies',
+      'retard retards retarded',
+      'sex sexy',
+      'shit shits shitty shitting',
+      'slut sluts slutty',
+      'tits titties titty',
+      'twat twats',
+      'vagina vaginas',
+      'wank wanks wanked wanking wanker wankers',
+      'whore whores',
+      'wtf',
+    ],
+    youngKids: [
+      'bloody',
+      'bum bums',
+      'butt butts',
+      'crap crappy',
+      'damn damned dammit damnit',
+      'dumb dumber dumbest',
+      'fart farts farted farting',
+      'hell',
+      'idiot idiots',
+      'loser losers',
+      'stupid',
+      'sucks',
+    ],
+  },
+  es: {
+    // Not "cono": without its accent it's a cone.
+    family: [
+      'cabron cabrones',
+      'carajo',
+      'chinga chingar chingada chingado',
+      'culo culos',
+      'joder jodido jodida',
+      'maricon maricones',
+      'mierda',
+      'pendejo pendeja pendejos',
+      'polla pollas',
+      'puta putas puto',
+    ],
+    youngKids: ['estupido estupida', 'idiota idiotas', 'tonto tonta tontos'],
+  },
+  fr: {
+    // "con" on its own only, as "cons" and "conte" are ordinary words. Not "bite", which
+    // reads as the English word.
+    family: [
+      'chier',
+      'con',
+      'connard connards connasse',
+      'encule enculee enculer',
+      'merde merdes',
+      'nique niquer',
+      'pute putes',
+      'salope salopes',
+    ],
+    youngKids: ['bete betes', 'cretin cretins', 'idiot idiots', 'stupide stupides'],
+  },
+  de: {
+    // Not "schwanz", which is also a tail.
+    family: [
+      'arsch',
+      'arschloch arschlocher',
+      'fick ficken fickt',
+      'fotze fotzen',
+      'hure huren',
+      'schlampe schlampen',
+      'scheisse',
+      'wichser',
+    ],
+    youngKids: ['blod', 'depp deppen', 'doof', 'dumm', 'idiot idioten'],
+  },
+};
+
+// What people type to sneak a word past a filter: "sh1t", "@ss", "$hit".
+const lookalikes: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '9': 'g',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+  '|': 'l',
+  '+': 't',
+  '€': 'e',
+  // Not split apart by Unicode normalization.
+  ß: 'ss',
+};
+
+// Only runs of three or more count as stretched: "assess" and "book" are spelled that way.
+const maxStretchedRuns = 4;
+
+// Each run of three or more of a letter, read as two of it and as one.
+function unstretch(word: string) {
+  const runs = Array.from(word.matchAll(/([a-z])\1{2,}/g)).slice(0, maxStretchedRuns);
+  return runs.reduceRight(
+    (variants, run) =>
+      variants.flatMap((variant) =>
+        [2, 1].map(
+          (length) =>
+            variant.slice(0, run.index) + run[1].repeat(length) + variant.slice((run.index ?? 0) + run[0].length)
+        )
+      ),
+    [word]
+  );
+}
+
+// "f*ck" or "sh**": each star stands for one letter.
+function matchesStarred(starred: string, blocked: Set<string>) {
+  const pattern = new RegExp(`^${starred.replace(/\*/g, '[a-z]')}$`);
+  return Array.from(blocked).some((word) => pattern.test(word));
+}
+
+const blockedWordsCache = new Map<string, Set<string>>();
+
+function getBlockedWords(level: ContentFilterLevel, language: string) {
+  const key = `${level}:${language}`;
+  const cached = blockedWordsCache.get(key);
+  if (cached) return cached;
+
+  // English is checked everywhere; kids pick up English swearing whatever the device says.
+  const lists = [blocklists.en, ...(language !== 'en' && blocklists[language] ? [blocklists[language]] : [])];
+  const blocked = new Set(
+    lists
+      .flatMap((list) => (level === 'young-kids' ? [...list.family, ...list.youngKids] : list.family))
+      .flatMap((entry) => entry.split(' '))
+  );
+  blockedWordsCache.set(key, blocked);
+  return blocked;
+}
+
+function isBlocked(normalized: string, blocked: Set<string>) {
+  return unstretch(normalized).some((word) =>
+    word.includes('*') ? matchesStarred(word, blocked) : blocked.has(word)
+  );
+}
+
+function deviceLanguage() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale;
+  } catch {
+    return 'en';
+  }
+}
+
+/**
+ * Folds a typed word to plain lowercase letters: accents and lookalike characters are
+ * replaced, and separators inside it ("f.u-c_k") are dropped. `*` is kept as a wildcard.
+ */
+export function normalizeForFilter(token: string) {
+  return token
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,!?;:"')\]]+$/, '')
+    .replace(/^["'([]+/, '')
+    .split('')
+    .map((character) => lookalikes[character] ?? character)
+    .join('')
+    .replace(/[^a-z*]/g, '');
+}
+
+// The words to check: each typed word, plus spelled-out runs like "f u c k".
+function candidates(text: string) {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const results = tokens.map((token) => ({ typed: token, normalized: normalizeForFilter(token) }));
+
+  let run: string[] = [];
+  const flushRun = () => {
+    if (run.length > 1) {
+      results.push({ typed: run.join(' '), normalized: normalizeForFilter(run.join('')) });
+    }
+    run = [];
+  };
+  tokens.forEach((token) => {
+    if (normalizeForFilter(token).length === 1) {
+      run.push(token);
+    } else {
+      flushRun();
+    }
+  });
+  flushRun();
+
+  return results.filter(({ normalized }) => /[a-z]/.test(normalized));
+}
+
+/**
+ * The words in `text` that `level` doesn't allow, as typed, or `[]` if it's fine. Checks
+ * English and the language of `locale` (the device's by default). Shared by the story
+ * screen and `addWordToSession`.
+ */
+export function findBlockedWords(text: string, level: ContentFilterLevel, locale = deviceLanguage()) {
+  if (level === 'off') return [];
+  const blocked = getBlockedWords(level, locale.split(/[-_]/)[0].toLowerCase());
+  return candidates(text)
+    .filter(({ normalized }) => isBlocked(normalized, blocked))
+    .map(({ typed }) => typed);
+}
+
+/** Falls back to the default for stories created before the filter, or unreadable values. */
+export function normalizeContentFilter(value: unknown): ContentFilterLevel {
+  return contentFilterLevels.includes(value as ContentFilterLevel)
+    ? (value as ContentFilterLevel)
+    : defaultContentFilter;
+}
+
+/** The more careful of two levels, e.g. a story's and a child's parental setting. */
+export function stricterContentFilter(a: ContentFilterLevel, b: ContentFilterLevel) {
+  return contentFilterLevels.indexOf(a) >= contentFilterLevels.indexOf(b) ? a : b;
+}
+
+export function describeContentFilter(level: ContentFilterLevel) {
+  switch (level) {
+    case 'off':
+      return 'Off';
+    case 'family':
+      return 'Family';
+    case 'young-kids':
+      return 'Young kids';
+  }
+}
+
+export const blockedWordMessage = "Let's keep the story friendly. Try a different word.";
@@ -0,0 +1,85 @@
+/** How much a player adds on their turn. Stored on the session doc as `contributionMode`. */
+export type ContributionMode =
+  | { kind: 'word' }
+  | { kind: 'words'; maxWords: number }
+  | { kind: 'sentence' }
+  | { kind: 'paragraph' };
+
+export const defaultContributionMode: ContributionMode = { kind: 'word' };
+
+export const minMaxWords = 2;
+export const maxMaxWords = 10;
+const maxSentenceLength = 200;
+const maxParagraphLength = 600;
+
+/** Falls back to one word for stories created before modes existed, or unreadable values. */
+export function normalizeContributionMode(value: unknown): ContributionMode {
+  const mode = value as Partial<{ kind: string; maxWords: number }> | null | undefined;
+  switch (mode?.kind) {
+    case 'words': {
+      const maxWords = Math.round(Number(mode.maxWords));
+      return Number.isFinite(maxWords)
+        ? { kind: 'words', maxWords: Math.min(Math.max(maxWords, minMaxWords), maxMaxWords) }
+        : defaultContributionMode;
+    }
+    case 'sentence':
+    case 'paragraph':
+      return { kind: mode.kind };
+    default:
+      return defaultContributionMode;
+  }
+}
+
+export function isSameContributionMode(a: ContributionMode, b: ContributionMode) {
+  return a.kind === b.kind && (a.kind !== 'words' || (b.kind === 'words' && a.maxWords === b.maxWords));
+}
+
+export function describeContributionMode(mode: ContributionMode) {
+  switch (mode.kind) {
+    case 'word':
+      return 'One word';
+    case 'words':
+      return `Up to ${mode.maxWords} words`;
+    case 'sentence':
+      return 'One sentence';
+    case 'paragraph':
+      return 'A paragraph';
+  }
+}
+
+/** Trims and collapses whitespace so the text is stored the same way whatever was typed. */
+export function cleanContribution(text: string) {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function countWords(text: string) {
+  return text ? text.split(' ').length : 0;
+}
+
+/**
+ * Checks a turn's text against the story's mode. Returns a message for the player, or
+ * `null` if the text is fine. Shared by the story screen and `addWordToSession`.
+ */
+export function validateContribution(text: string, mode: ContributionMode): string | null {
+  const cleaned = cleanContribution(text);
+  if (!cleaned) {
+    return 'Type something before adding it.';
+  }
+
+  switch (mode.kind) {
+    case 'word':
+      return countWords(cleaned) > 1 ? 'Please enter only one word (no spaces).' : null;
+    case 'words':
+      return countWords(cleaned) > mode.maxWords ? `Please enter at most ${mode.maxWords} words.` : null;
+    case 'sentence':
+      if (cleaned.length > maxSentenceLength) {
+        return `Keep your sentence under ${maxSentenceLength} characters.`;
+      }
+      // A full stop, question or exclamation mark followed by more text starts a second sentence.
+      return /[.!?]["')\]]*\s+\S/.test(cleaned) ? 'Please enter just one sentence.' : null;
+    case 'paragraph':
+      return cleaned.length > maxParagraphLength
+        ? `Keep your paragraph under ${maxParagraphLength} characters.`
+        : null;
+  }
+}
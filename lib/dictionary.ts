@@ -0,0 +1,103 @@
+// The lists leave out contractions.
+const contractions = [
+  "ain't",
+  "aren't",
+  "can't",
+  "couldn't",
+  "didn't",
+  "doesn't",
+  "don't",
+  "hadn't",
+  "hasn't",
+  "haven't",
+  "he'd",
+  "he'll",
+  "i'd",
+  "i'll",
+  "i'm",
+  "i've",
+  "isn't",
+  "it'll",
+  "let's",
+  "she'd",
+  "she'll",
+  "shouldn't",
+  "that'll",
+  "there'd",
+  "they'd",
+  "they'll",
+  "they're",
+  "they've",
+  "wasn't",
+  "we'd",
+  "we'll",
+  "we're",
+  "we've",
+  "weren't",
+  "won't",
+  "wouldn't",
+  "you'd",
+  "you'll",
+  "you're",
+  "you've",
+];
+
+let words: Set<string> | null = null;
+
+// Loaded and built on first use: the lists are about 700 KB of JSON, which stories that never
+// check shouldn't have to parse.
+function getWords() {
+  if (words) return words;
+  // SCOWL word lists up to size 50 (common to fairly rare words), plus American and
+  // British spellings. Plurals and verb forms are listed separately, so no stemming is needed.
+  const lists: string[][] = [
+    require('wordlist-english/english-words-10.json'),
+    require('wordlist-english/english-words-20.json'),
+    require('wordlist-english/english-words-35.json'),
+    require('wordlist-english/english-words-40.json'),
+    require('wordlist-english/english-words-50.json'),
+    require('wordlist-english/american-words-10.json'),
+    require('wordlist-english/american-words-20.json'),
+    require('wordlist-english/american-words-35.json'),
+    require('wordlist-english/british-words-10.json'),
+    require('wordlist-english/british-words-20.json'),
+    require('wordlist-english/british-words-35.json'),
+  ];
+  words = new Set([...lists, contractions].flat().map((word) => word.toLowerCase()));
+  return words;
+}
+
+/** Lowercases a typed word and strips the punctuation around it, so "Dog's," checks as "dog". */
+export function normalizeDictionaryWord(word: string) {
+  return word
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '')
+    .replace(/'s$/, '');
+}
+
+function isKnown(word: string, allowed: Set<string>): boolean {
+  // Numbers and bare punctuation (like the sentence break) aren't words to look up.
+  if (!/[a-z]/.test(word) || /[0-9]/.test(word)) return true;
+  if (allowed.has(word) || getWords().has(word)) return true;
+  // "Dog-house" is fine when each part is.
+  return word.includes('-') && word.split('-').every((part) => !part || isKnown(part, allowed));
+}
+
+/**
+ * The words in `text` that aren't in the dictionary or in `allowedWords` (names and silly
+ * words a host let in), as typed. Shared by the story screen and `addWordToSession`.
+ */
+export function findUnknownWords(text: string, allowedWords: string[] = []) {
+  const allowed = new Set(allowedWords.map(normalizeDictionaryWord));
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .filter((token) => !isKnown(normalizeDictionaryWord(token), allowed));
+}
+
+export function describeUnknownWords(unknown: string[]) {
+  const quoted = unknown.map((word) => `“${word}”`).join(', ');
+  const verb = unknown.length > 1 ? "aren't" : "isn't";
+  return `${quoted} ${verb} in our dictionary. Check the spelling, or ask a host to allow it.`;
+}
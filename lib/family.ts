@@ -0,0 +1,310 @@
+import { generateInviteToken } from './invite-link';
+import { getStoryStore, isPermissionDenied, toMillis, type StoreData, type StoryTransaction } from './story-store';
+
+/**
+ * A household whose members all see its stories. Kept in `families/{id}`; stories point
+ * at it with their `familyId`.
+ */
+export type Family = {
+  id: string;
+  name: string;
+  members: FamilyMember[];
+  /** Can invite and remove members, and hand the family on. */
+  ownerId: string | null;
+  /** Members the owner trusts to invite and remove others. */
+  adminIds: string[];
+  createdAt: number | null;
+};
+
+export type FamilyMember = {
+  id: string;
+  name: string;
+  /** Epoch ms of joining; the longest-standing member inherits the family. */
+  joinedAt?: number;
+};
+
+export type FamilyRole = 'owner' | 'admin' | 'member';
+
+type FamilyDoc = Omit<Family, 'id' | 'createdAt'> & {
+  /** Member uids, for the "my families" query and the security rules. */
+  memberIds: string[];
+  createdBy: string;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+};
+
+/** Points an invite code at its family, in `familyInvites/{code}`. */
+type FamilyInviteDoc = {
+  familyId: string;
+  createdBy: string;
+  createdAt?: unknown;
+};
+
+/**
+ * The family's current invite code, in `families/{id}/private/invite`. Kept out of the
+ * family doc, so only the owner and admins can change it.
+ */
+type FamilySecretsDoc = {
+  code: string | null;
+};
+
+export class FamilyNotFoundError extends Error {
+  constructor() {
+    super('That family no longer exists.');
+    this.name = new.target.name;
+  }
+}
+
+export class FamilyPermissionError extends Error {
+  constructor(message = 'Only the family owner or an admin can do that.') {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidFamilyInviteError extends Error {
+  constructor() {
+    super('That family invite code is not valid any more. Ask a family member for a new one.');
+    this.name = new.target.name;
+  }
+}
+
+const collectionName = 'families';
+const invitesCollectionName = 'familyInvites';
+const secretsPath = 'private/invite';
+// One doc per member who joined with a code, like story admissions: the security rules
+// check it to let them add themselves.
+const admissionsCollectionName = 'admissions';
+const maxFamilyNameLength = 60;
+
+function getFamilyPath(familyId: string) {
+  return `${collectionName}/${familyId}`;
+}
+
+function getFamilyInvitePath(code: string) {
+  return `${invitesCollectionName}/${code}`;
+}
+
+function getFamilySecretsPath(familyId: string) {
+  return `${getFamilyPath(familyId)}/${secretsPath}`;
+}
+
+function readFamily(id: string, data: FamilyDoc): Family {
+  return {
+    id,
+    name: data.name,
+    members: data.members ?? [],
+    ownerId: data.ownerId ?? null,
+    adminIds: data.adminIds ?? [],
+    createdAt: toMillis(data.createdAt),
+  };
+}
+
+/**
+ * Whether `userId`, the signed-in user, is in the family, read inside `transaction` so it can
+ * guard another write. Only members may read a family, so a turned-down read means no.
+ */
+export async function isFamilyMember(transaction: StoryTransaction, familyId: string, userId: string) {
+  try {
+    const data = await transaction.get<FamilyDoc>(getFamilyPath(familyId));
+    return Boolean(data?.memberIds?.includes(userId));
+  } catch (error) {
+    if (isPermissionDenied(error)) return false;
+    throw error;
+  }
+}
+
+export function getFamilyRole(family: Pick<Family, 'ownerId' | 'adminIds'>, memberId: string): FamilyRole {
+  if (family.ownerId === memberId) return 'owner';
+  return family.adminIds.includes(memberId) ? 'admin' : 'member';
+}
+
+function requireFamilyAdmin(data: FamilyDoc, actorId: string) {
+  if (data.ownerId !== actorId && !(data.adminIds ?? []).includes(actorId)) {
+    throw new FamilyPermissionError();
+  }
+}
+
+function cleanFamilyName(name: string) {
+  const cleaned = name.trim().replace(/\s+/g, ' ');
+  if (!cleaned) {
+    throw new Error('Give the family a name.');
+  }
+  return cleaned.slice(0, maxFamilyNameLength);
+}
+
+async function updateFamily(
+  familyId: string,
+  update: (data: FamilyDoc, transaction: StoryTransaction) => StoreData
+) {
+  const store = getStoryStore();
+  const path = getFamilyPath(familyId);
+
+  await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<FamilyDoc>(path);
+    if (!data) throw new FamilyNotFoundError();
+
+    transaction.set(path, { ...update(data, transaction), updatedAt: store.serverTimestamp() }, { merge: true });
+  });
+}
+
+/** Starts a family with `creator` as its owner and only member. Resolves to its id. */
+export async function createFamily(creator: FamilyMember, name: string) {
+  const store = getStoryStore();
+  // Random like invite tokens: family ids never need to be typed.
+  const familyId = generateInviteToken();
+  const member = { id: creator.id, name: creator.name.trim() || 'Player', joinedAt: Date.now() };
+
+  await store.set(getFamilyPath(familyId), {
+    name: cleanFamilyName(name),
+    members: [member],
+    memberIds: [member.id],
+    ownerId: member.id,
+    adminIds: [],
+    createdBy: member.id,
+    createdAt: store.serverTimestamp(),
+    updatedAt: store.serverTimestamp(),
+  });
+
+  return familyId;
+}
+
+export async function getFamily(familyId: string) {
+  const data = await getStoryStore().get<FamilyDoc>(getFamilyPath(familyId));
+  return data ? readFamily(familyId, data) : null;
+}
+
+/** The families `userId` belongs to, by name. */
+export async function getFamiliesForUser(userId: string) {
+  const results = await getStoryStore().query<FamilyDoc>(collectionName, {
+    where: [{ field: 'memberIds', op: 'array-contains', value: userId }],
+  });
+  return results.map(({ id, data }) => readFamily(id, data)).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Swaps the family's invite code for `code`, or turns invites off with `null`.
+async function replaceInviteCode(familyId: string, actorId: string, code: string | null) {
+  const store = getStoryStore();
+
+  await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<FamilyDoc>(getFamilyPath(familyId));
+    if (!data) throw new FamilyNotFoundError();
+    requireFamilyAdmin(data, actorId);
+    const secrets = await transaction.get<FamilySecretsDoc>(getFamilySecretsPath(familyId));
+
+    if (secrets?.code) {
+      transaction.delete(getFamilyInvitePath(secrets.code));
+    }
+    if (code) {
+      transaction.set(getFamilyInvitePath(code), { familyId, createdBy: actorId, createdAt: store.serverTimestamp() });
+    }
+    transaction.set(getFamilySecretsPath(familyId), { code });
+  });
+}
+
+/** The family's invite code, or `null` if invites are off. Members only. */
+export async function getFamilyInviteCode(familyId: string) {
+  const secrets = await getStoryStore().get<FamilySecretsDoc>(getFamilySecretsPath(familyId));
+  return secrets?.code ?? null;
+}
+
+/** Makes a new invite code for the family; the previous one stops working. Owner and admins only. */
+export async function createFamilyInvite(familyId: string, actorId: string) {
+  const code = generateInviteToken();
+  await replaceInviteCode(familyId, actorId, code);
+  return code;
+}
+
+/** Turns the family's invite code off. Owner and admins only. */
+export async function revokeFamilyInvite(familyId: string, actorId: string) {
+  await replaceInviteCode(familyId, actorId, null);
+}
+
+/** Joins the family an invite code belongs to. Resolves to the family's id. */
+export async function joinFamily(code: string, member: FamilyMember) {
+  const store = getStoryStore();
+  const invite = await store.get<FamilyInviteDoc>(getFamilyInvitePath(code.trim()));
+  if (!invite) throw new InvalidFamilyInviteError();
+  const { familyId } = invite;
+  const path = getFamilyPath(familyId);
+
+  // Outsiders can't read the family, so the new member is appended without reading it.
+  let data: FamilyDoc | null | undefined;
+  try {
+    data = await store.get<FamilyDoc>(path);
+  } catch (error) {
+    if (!isPermissionDenied(error)) throw error;
+  }
+  if (data === null) throw new FamilyNotFoundError();
+  if (data?.memberIds?.includes(member.id)) return familyId;
+
+  const joined = { ...member, name: member.name.trim() || 'Player', joinedAt: Date.now() };
+  await store.runTransaction(async (transaction) => {
+    transaction.set(`${path}/${admissionsCollectionName}/${member.id}`, {
+      code: code.trim(),
+      usedAt: store.serverTimestamp(),
+    });
+    transaction.set(
+      path,
+      {
+        members: store.arrayUnion(joined),
+        memberIds: store.arrayUnion(member.id),
+        updatedAt: store.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  });
+
+  return familyId;
+}
+
+// Removes a member. If they owned the family, the longest-standing member takes over.
+function withoutMember(data: FamilyDoc, memberId: string): StoreData {
+  const members = (data.members ?? []).filter((member) => member.id !== memberId);
+  if (members.length === (data.members ?? []).length) {
+    throw new Error('That person is not in this family.');
+  }
+
+  const heir = members.reduce<FamilyMember | undefined>(
+    (earliest, member) => (!earliest || (member.joinedAt ?? 0) < (earliest.joinedAt ?? 0) ? member : earliest),
+    undefined
+  );
+  const ownerId = data.ownerId === memberId ? heir?.id ?? null : data.ownerId;
+  return {
+    members,
+    memberIds: members.map((member) => member.id),
+    ownerId,
+    adminIds: (data.adminIds ?? []).filter((id) => id !== memberId && id !== ownerId),
+  };
+}
+
+/** Takes `memberId` out of the family. Its stories stay with the family. */
+export async function leaveFamily(familyId: string, memberId: string) {
+  await updateFamily(familyId, (data) => withoutMember(data, memberId));
+}
+
+/** Lets the owner or an admin remove someone. The owner has to hand the family on first. */
+export async function removeFamilyMember(familyId: string, actorId: string, memberId: string) {
+  await updateFamily(familyId, (data) => {
+    requireFamilyAdmin(data, actorId);
+    if (data.ownerId === memberId) {
+      throw new FamilyPermissionError("The family owner can't be removed.");
+    }
+    return withoutMember(data, memberId);
+  });
+}
+
+/** Makes a member an admin, or back to a plain member. Owner only. */
+export async function setFamilyAdmin(familyId: string, actorId: string, memberId: string, isAdmin: boolean) {
+  await updateFamily(familyId, (data) => {
+    if (data.ownerId !== actorId) {
+      throw new FamilyPermissionError('Only the family owner can change roles.');
+    }
+    if (!(data.memberIds ?? []).includes(memberId) || memberId === actorId) {
+      throw new Error('Pick another member of this family.');
+    }
+
+    const others = (data.adminIds ?? []).filter((id) => id !== memberId);
+    return { adminIds: isAdmin ? [...others, memberId] : others };
+  });
+}
@@ -1,6 +1,6 @@
 import { getApp, getApps, initializeApp, type FirebaseApp, type FirebaseOptions } from 'firebase/app';
-import { getAuth, initializeAuth, getReactNativePersistence } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { connectAuthEmulator, getAuth, initializeAuth, getReactNativePersistence, type Auth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore, type Firestore } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 type ConfigKeys =
@@ -20,13 +20,36 @@ const firebaseConfig: FirebaseOptions = {
   appId: process.env.EXPO_PUBLIC_FIREBASE_APP_ID,
 };
 
+// Emulator mode talks to a local Firebase Emulator Suite (see firebase.json) under a
+// `demo-` project id, which the emulators accept without any cloud credentials.
+export const emulatorProjectId = 'demo-fam-bam';
+
+export const isEmulatorMode = process.env.EXPO_PUBLIC_FIREBASE_EMULATORS === 'true';
+
+const emulatorHost = process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST || 'localhost';
+const firestoreEmulatorPort = 8080;
+const authEmulatorPort = 9099;
+
+const emulatorConfig: FirebaseOptions = {
+  apiKey: 'demo-api-key',
+  authDomain: `${emulatorProjectId}.firebaseapp.com`,
+  projectId: emulatorProjectId,
+};
+
 let appInstance: FirebaseApp | null = null;
+let dbInstance: Firestore | null = null;
+let authInstance: Auth | null = null;
 
 function ensureApp(): FirebaseApp {
   if (appInstance) {
     return appInstance;
   }
 
+  if (isEmulatorMode) {
+    appInstance = getApps().length ? getApp() : initializeApp(emulatorConfig);
+    return appInstance;
+  }
+
   const missingKeys = Object.entries(firebaseConfig)
     .filter(([, value]) => !value)
     .map(([key]) => key as ConfigKeys);
@@ -43,12 +66,19 @@ function ensureApp(): FirebaseApp {
 }
 
 export function getDb() {
-  const app = ensureApp();
-  return getFirestore(app);
+  if (dbInstance) {
+    return dbInstance;
+  }
+
+  const db = getFirestore(ensureApp());
+  if (isEmulatorMode) {
+    connectFirestoreEmulator(db, emulatorHost, firestoreEmulatorPort);
+  }
+  dbInstance = db;
+  return dbInstance;
 }
 
-export function getFirebaseAuth() {
-  const app = ensureApp();
+function createAuth(app: FirebaseApp) {
   try {
     return getAuth(app);
   } catch {
@@ -57,3 +87,16 @@ export function getFirebaseAuth() {
     });
   }
 }
+
+export function getFirebaseAuth() {
+  if (authInstance) {
+    return authInstance;
+  }
+
+  const auth = createAuth(ensureApp());
+  if (isEmulatorMode) {
+    connectAuthEmulator(auth, `http://${emulatorHost}:${authEmulatorPort}`, { disableWarnings: true });
+  }
+  authInstance = auth;
+  return authInstance;
+}
@@ -0,0 +1,112 @@
+import {
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  where,
+  type Firestore,
+  type QueryConstraint,
+  type QuerySnapshot,
+} from 'firebase/firestore';
+
+import { getDb } from './firebase';
+import type { StoreData, StoreDocument, StoreQuery, StoryStore } from './story-store';
+
+function buildQuery(db: Firestore, collectionPath: string, storeQuery?: StoreQuery) {
+  const constraints: QueryConstraint[] = (storeQuery?.where ?? []).map((filter) =>
+    where(filter.field, filter.op, filter.value)
+  );
+  if (storeQuery?.orderBy) {
+    constraints.push(orderBy(storeQuery.orderBy.field, storeQuery.orderBy.direction ?? 'asc'));
+  }
+  if (storeQuery?.limit !== undefined) {
+    constraints.push(limit(storeQuery.limit));
+  }
+  return query(collection(db, collectionPath), ...constraints);
+}
+
+function toStoreDocuments<T>(snapshot: QuerySnapshot) {
+  return snapshot.docs.map<StoreDocument<T>>((docSnapshot) => ({
+    id: docSnapshot.id,
+    data: docSnapshot.data() as T,
+  }));
+}
+
+/** `getFirestore` picks the database, e.g. an emulator test context's; the app's by default. */
+export function createFirestoreStoryStore(getFirestore: () => Firestore = getDb): StoryStore {
+  const getDocRef = (path: string) => doc(getFirestore(), path);
+
+  return {
+    async get<T>(path: string) {
+      const snapshot = await getDoc(getDocRef(path));
+      return snapshot.exists() ? (snapshot.data() as T) : null;
+    },
+
+    async set(path, data, options) {
+      await setDoc(getDocRef(path), data, { merge: Boolean(options?.merge) });
+    },
+
+    async delete(path) {
+      await deleteDoc(getDocRef(path));
+    },
+
+    async query<T>(collectionPath: string, storeQuery?: StoreQuery) {
+      return toStoreDocuments<T>(await getDocs(buildQuery(getFirestore(), collectionPath, storeQuery)));
+    },
+
+    runTransaction(run) {
+      return runTransaction(getFirestore(), (transaction) =>
+        run({
+          async get<T>(path: string) {
+            const snapshot = await transaction.get(getDocRef(path));
+            return snapshot.exists() ? (snapshot.data() as T) : null;
+          },
+          set(path: string, data: StoreData, options) {
+            transaction.set(getDocRef(path), data, { merge: Boolean(options?.merge) });
+          },
+          delete(path: string) {
+            transaction.delete(getDocRef(path));
+          },
+        })
+      );
+    },
+
+    subscribe<T>(path: string, onChange: (data: T | null) => void, onError?: (error: Error) => void) {
+      return onSnapshot(
+        getDocRef(path),
+        (snapshot) => onChange(snapshot.exists() ? (snapshot.data() as T) : null),
+        (error) => onError?.(error)
+      );
+    },
+
+    subscribeQuery<T>(
+      collectionPath: string,
+      storeQuery: StoreQuery,
+      onChange: (docs: StoreDocument<T>[]) => void,
+      onError?: (error: Error) => void
+    ) {
+      return onSnapshot(
+        buildQuery(getFirestore(), collectionPath, storeQuery),
+        (snapshot) => onChange(toStoreDocuments<T>(snapshot)),
+        (error) => onError?.(error)
+      );
+    },
+
+    serverTimestamp() {
+      return serverTimestamp();
+    },
+
+    arrayUnion(...values) {
+      return arrayUnion(...values);
+    },
+  };
+}
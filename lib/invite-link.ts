@@ -0,0 +1,57 @@
+// Matches `scheme` in app.json.
+const appScheme = 'fambam';
+// Where the web build is hosted, e.g. `https://fambam.example.com`. Without it invites
+// only get an app link.
+const webBaseUrl = process.env.EXPO_PUBLIC_WEB_URL?.replace(/\/+$/, '') || null;
+
+/** The query parameter the story screen reads an invite token from. */
+export const inviteParam = 'invite';
+
+const tokenLength = 20;
+const tokenAlphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+function randomBytes(count: number) {
+  const bytes = new Uint8Array(count);
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => {
+      bytes[index] = Math.floor(Math.random() * 256);
+    });
+  }
+  return bytes;
+}
+
+/**
+ * A random invite token. Anyone holding one can join without a host's approval, so it
+ * uses the platform's secure random source where there is one.
+ */
+export function generateInviteToken() {
+  // 252 is the largest multiple of 36 below 256; keeping higher bytes would favour the first characters.
+  const usable = 252;
+  let token = '';
+  while (token.length < tokenLength) {
+    randomBytes(tokenLength).forEach((byte) => {
+      if (byte < usable && token.length < tokenLength) {
+        token += tokenAlphabet[byte % tokenAlphabet.length];
+      }
+    });
+  }
+  return token;
+}
+
+export function isInviteToken(value: string) {
+  return /^[a-z0-9]{20}$/.test(value);
+}
+
+function storyPath(sessionId: string, token: string) {
+  return `story/${encodeURIComponent(sessionId)}?${inviteParam}=${token}`;
+}
+
+/** Links that open the story screen ready to join: `fambam://…` always, and a web URL if configured. */
+export function buildInviteLinks(sessionId: string, token: string) {
+  return {
+    appUrl: `${appScheme}://${storyPath(sessionId, token)}`,
+    webUrl: webBaseUrl ? `${webBaseUrl}/${storyPath(sessionId, token)}` : null,
+  };
+}
@@ -0,0 +1,69 @@
+// Short, kid-readable words only: a join code gets read aloud across the dinner table.
+const adjectives = [
+  'BLUE',
+  'RED',
+  'GOLD',
+  'PINK',
+  'GREEN',
+  'SILLY',
+  'HAPPY',
+  'BRAVE',
+  'SUNNY',
+  'FUZZY',
+  'TINY',
+  'JOLLY',
+  'QUICK',
+  'LUCKY',
+  'COZY',
+  'WILD',
+  'SNOWY',
+  'MAGIC',
+  'ROSY',
+  'SHINY',
+];
+
+const animals = [
+  'TIGER',
+  'OTTER',
+  'PANDA',
+  'LLAMA',
+  'KOALA',
+  'MOOSE',
+  'ZEBRA',
+  'GECKO',
+  'RAVEN',
+  'BISON',
+  'WHALE',
+  'HIPPO',
+  'SLOTH',
+  'EAGLE',
+  'CAMEL',
+  'FOX',
+  'OWL',
+  'YAK',
+  'DUCK',
+  'FROG',
+];
+
+const joinCodePattern = /^[A-Z]+-[A-Z]+-\d{2}$/;
+
+function pick<T>(items: T[]) {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/** Returns a code like `BLUE-TIGER-42`. Uniqueness is checked by the caller. */
+export function generateJoinCode() {
+  const number = String(Math.floor(Math.random() * 90) + 10);
+  return `${pick(adjectives)}-${pick(animals)}-${number}`;
+}
+
+/**
+ * Cleans up a typed story id. Anything shaped like a join code is upper-cased and
+ * spaces become dashes ("blue tiger 42" -> "BLUE-TIGER-42"); older free-form ids
+ * such as `shared-story` are only trimmed.
+ */
+export function normalizeSessionId(input: string) {
+  const trimmed = input.trim();
+  const asCode = trimmed.toUpperCase().replace(/[\s_]+/g, '-');
+  return joinCodePattern.test(asCode) ? asCode : trimmed;
+}
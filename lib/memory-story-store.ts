@@ -0,0 +1,316 @@
+import {
+  StoreAccessError,
+  toMillis,
+  type SetOptions,
+  type StoreData,
+  type StoreDocument,
+  type StoreFilter,
+  type StoreQuery,
+  type StoryStore,
+} from './story-store';
+
+type PendingWrite =
+  | { type: 'set'; path: string; data: StoreData; options?: SetOptions }
+  | { type: 'delete'; path: string };
+
+const maxTransactionAttempts = 5;
+
+/**
+ * Stand-ins for security rules, so tests can exercise denied reads and writes. Queries
+ * are checked against their collection path. Everything is allowed by default.
+ */
+export type MemoryStoreAccess = {
+  canRead?: (path: string) => boolean;
+  canWrite?: (path: string) => boolean;
+};
+
+const allowAll = () => true;
+
+// What `arrayUnion` returns: kept as it is until the write is applied to the stored doc.
+class ArrayUnion {
+  constructor(readonly values: unknown[]) {}
+}
+
+function isPlainObject(value: unknown): value is StoreData {
+  return (
+    Boolean(value) &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof ArrayUnion)
+  );
+}
+
+function isSameValue(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((entry, index) => isSameValue(entry, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length && keys.every((key) => isSameValue(left[key], right[key]));
+  }
+  return (toMillis(left) ?? left) === (toMillis(right) ?? right);
+}
+
+function cloneValue<T>(value: T): T {
+  if (value instanceof ArrayUnion) return value;
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(cloneValue) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, cloneValue(entry)])) as T;
+  }
+  return value;
+}
+
+// Also applies `arrayUnion` values, against `base` or, in a field `base` lacks, an empty array.
+function mergeData(base: StoreData, patch: StoreData): StoreData {
+  const merged: StoreData = { ...base };
+  Object.entries(patch).forEach(([key, value]) => {
+    const current = merged[key];
+    if (value instanceof ArrayUnion) {
+      const array = Array.isArray(current) ? cloneValue(current) : [];
+      value.values.forEach((entry) => {
+        if (!array.some((existing) => isSameValue(existing, entry))) array.push(cloneValue(entry));
+      });
+      merged[key] = array;
+    } else if (isPlainObject(value)) {
+      merged[key] = mergeData(isPlainObject(current) ? current : {}, value);
+    } else {
+      merged[key] = cloneValue(value);
+    }
+  });
+  return merged;
+}
+
+function readField(data: StoreData, field: string): unknown {
+  return field.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+}
+
+function compareValues(left: unknown, right: unknown) {
+  const leftValue = toMillis(left) ?? left;
+  const rightValue = toMillis(right) ?? right;
+  if (leftValue === rightValue) return 0;
+  return (leftValue as number | string) < (rightValue as number | string) ? -1 : 1;
+}
+
+function matchesFilter(data: StoreData, filter: StoreFilter) {
+  const value = readField(data, filter.field);
+  switch (filter.op) {
+    case 'array-contains':
+      return Array.isArray(value) && value.includes(filter.value);
+    case '==':
+      return value === filter.value;
+    default: {
+      // Like Firestore, range filters skip documents that are missing the field.
+      if (value === undefined) return false;
+      const order = compareValues(value, filter.value);
+      if (filter.op === '<') return order < 0;
+      if (filter.op === '<=') return order <= 0;
+      if (filter.op === '>') return order > 0;
+      return order >= 0;
+    }
+  }
+}
+
+function parentPath(path: string) {
+  return path.split('/').slice(0, -1).join('/');
+}
+
+function docId(path: string) {
+  const segments = path.split('/');
+  return segments[segments.length - 1];
+}
+
+/**
+ * Keeps every document in a Map so the game can run without Firebase: offline
+ * demos, unit tests and experiments. Transactions are optimistic and retried
+ * when a document they read changes before commit, mirroring Firestore.
+ */
+export function createMemoryStoryStore(
+  seed: Record<string, StoreData> = {},
+  { canRead = allowAll, canWrite = allowAll }: MemoryStoreAccess = {}
+): StoryStore {
+  const docs = new Map<string, StoreData>();
+  const versions = new Map<string, number>();
+  const listeners = new Map<string, Set<(data: StoreData | null) => void>>();
+  const queryListeners = new Set<{ collectionPath: string; run: () => void }>();
+
+  const requireRead = (path: string) => {
+    if (!canRead(path)) throw new StoreAccessError(path);
+  };
+
+  const requireWrite = (path: string) => {
+    if (!canWrite(path)) throw new StoreAccessError(path);
+  };
+
+  const read = (path: string) => {
+    const data = docs.get(path);
+    return data ? cloneValue(data) : null;
+  };
+
+  const runQuery = <T>(collectionPath: string, storeQuery?: StoreQuery) => {
+    const filters = storeQuery?.where ?? [];
+    const matches: StoreDocument<T>[] = [];
+    docs.forEach((data, path) => {
+      if (parentPath(path) !== collectionPath) return;
+      if (!filters.every((filter) => matchesFilter(data, filter))) return;
+      matches.push({ id: docId(path), data: cloneValue(data) as T });
+    });
+
+    const order = storeQuery?.orderBy;
+    if (order) {
+      const direction = order.direction === 'desc' ? -1 : 1;
+      matches.sort(
+        (left, right) =>
+          direction *
+          compareValues(readField(left.data as StoreData, order.field), readField(right.data as StoreData, order.field))
+      );
+    }
+    return storeQuery?.limit !== undefined ? matches.slice(0, storeQuery.limit) : matches;
+  };
+
+  const notify = (path: string) => {
+    listeners.get(path)?.forEach((listener) => {
+      const data = read(path);
+      queueMicrotask(() => {
+        if (listeners.get(path)?.has(listener)) listener(data);
+      });
+    });
+
+    const collectionPath = parentPath(path);
+    queryListeners.forEach((entry) => {
+      if (entry.collectionPath === collectionPath) entry.run();
+    });
+  };
+
+  const applyWrite = (write: PendingWrite) => {
+    if (write.type === 'delete') {
+      docs.delete(write.path);
+    } else {
+      const current = docs.get(write.path);
+      const next = mergeData(write.options?.merge && current ? current : {}, write.data);
+      docs.set(write.path, next);
+    }
+    versions.set(write.path, (versions.get(write.path) ?? 0) + 1);
+    notify(write.path);
+  };
+
+  Object.entries(seed).forEach(([path, data]) => applyWrite({ type: 'set', path, data }));
+
+  return {
+    async get<T>(path: string) {
+      requireRead(path);
+      return read(path) as T | null;
+    },
+
+    async set(path, data, options) {
+      requireWrite(path);
+      applyWrite({ type: 'set', path, data, options });
+    },
+
+    async delete(path) {
+      requireWrite(path);
+      applyWrite({ type: 'delete', path });
+    },
+
+    async query<T>(collectionPath: string, storeQuery?: StoreQuery) {
+      requireRead(collectionPath);
+      return runQuery<T>(collectionPath, storeQuery);
+    },
+
+    async runTransaction(run) {
+      for (let attempt = 0; attempt < maxTransactionAttempts; attempt += 1) {
+        const readVersions = new Map<string, number>();
+        const writes: PendingWrite[] = [];
+
+        const result = await run({
+          async get<T>(path: string) {
+            if (writes.length) {
+              throw new Error('Transactions require all reads to be executed before all writes.');
+            }
+            requireRead(path);
+            readVersions.set(path, versions.get(path) ?? 0);
+            return read(path) as T | null;
+          },
+          set(path, data, options) {
+            writes.push({ type: 'set', path, data: cloneValue(data), options });
+          },
+          delete(path) {
+            writes.push({ type: 'delete', path });
+          },
+        });
+
+        const conflicted = Array.from(readVersions).some(([path, version]) => (versions.get(path) ?? 0) !== version);
+        if (conflicted) continue;
+
+        // All or nothing, like a Firestore commit.
+        writes.forEach((write) => requireWrite(write.path));
+        writes.forEach(applyWrite);
+        return result;
+      }
+
+      throw new Error('Transaction failed: too much contention on the same story.');
+    },
+
+    subscribe<T>(path: string, onChange: (data: T | null) => void, onError?: (error: Error) => void) {
+      const pathListeners = listeners.get(path) ?? new Set();
+      const listener = (data: StoreData | null) => {
+        // Like a Firestore listener, one that loses access reports it once and stops.
+        if (!canRead(path)) {
+          pathListeners.delete(listener);
+          onError?.(new StoreAccessError(path));
+          return;
+        }
+        onChange(data as T | null);
+      };
+      pathListeners.add(listener);
+      listeners.set(path, pathListeners);
+
+      const initial = read(path);
+      queueMicrotask(() => {
+        if (pathListeners.has(listener)) listener(initial);
+      });
+
+      return () => {
+        pathListeners.delete(listener);
+      };
+    },
+
+    subscribeQuery<T>(
+      collectionPath: string,
+      storeQuery: StoreQuery,
+      onChange: (docs: StoreDocument<T>[]) => void,
+      onError?: (error: Error) => void
+    ) {
+      const entry = {
+        collectionPath,
+        run: () => {
+          const results = runQuery<T>(collectionPath, storeQuery);
+          queueMicrotask(() => {
+            if (!queryListeners.has(entry)) return;
+            if (!canRead(collectionPath)) {
+              queryListeners.delete(entry);
+              onError?.(new StoreAccessError(collectionPath));
+              return;
+            }
+            onChange(results);
+          });
+        },
+      };
+      queryListeners.add(entry);
+      entry.run();
+
+      return () => {
+        queryListeners.delete(entry);
+      };
+    },
+
+    serverTimestamp() {
+      return new Date();
+    },
+
+    arrayUnion(...values) {
+      return new ArrayUnion(values);
+    },
+  };
+}
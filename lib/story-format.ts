@@ -0,0 +1,94 @@
+// Special turns. They are stored as ordinary words so every backend, rule and
+// contribution mode accepts them without changes.
+export const endSentenceToken = '.';
+export const newParagraphToken = '¶';
+
+export type FormattedToken<T> = {
+  entry: T;
+  /** The text to show, capitalized if it starts a sentence. */
+  text: string;
+  /** False for punctuation that hugs the previous word, and after opening brackets. */
+  spaceBefore: boolean;
+};
+
+export type FormatOptions = {
+  /**
+   * The entries start part-way through the story (e.g. only the latest page is loaded),
+   * so the first one isn't treated as a sentence start.
+   */
+  partial?: boolean;
+};
+
+const closingPunctuation = /^[.,!?;:…)\]}"'”’»]+$/;
+const openingPunctuation = /[([{“‘«]$/;
+// A sentence ends with . ! ? or …, optionally followed by closing quotes or brackets.
+const sentenceEnd = /[.!?…]["'”’)\]]*$/;
+
+export function endsSentence(text: string) {
+  return sentenceEnd.test(text.trim());
+}
+
+// Skips leading quotes and brackets so `"hello` becomes `"Hello`.
+function capitalize(text: string) {
+  const chars = Array.from(text);
+  const firstLetter = chars.findIndex((char) => char.toUpperCase() !== char.toLowerCase());
+  if (firstLetter < 0) return text;
+  chars[firstLetter] = chars[firstLetter].toUpperCase();
+  return chars.join('');
+}
+
+/**
+ * Lays story entries out as paragraphs of display tokens: punctuation attaches to the
+ * word before it, sentence starts are capitalized and `newParagraphToken` turns start a
+ * new paragraph. Empty paragraphs are dropped. Use `formatStoryText` for plain text.
+ */
+export function formatStory<T>(
+  entries: T[],
+  getText: (entry: T) => string,
+  options: FormatOptions = {}
+): FormattedToken<T>[][] {
+  const paragraphs: FormattedToken<T>[][] = [[]];
+  let sentenceStart = !options.partial;
+  let afterOpening = false;
+
+  entries.forEach((entry) => {
+    const raw = getText(entry).trim();
+    if (!raw) return;
+
+    if (raw === newParagraphToken) {
+      if (paragraphs[paragraphs.length - 1].length) paragraphs.push([]);
+      sentenceStart = true;
+      afterOpening = false;
+      return;
+    }
+
+    const paragraph = paragraphs[paragraphs.length - 1];
+    const isPunctuation = closingPunctuation.test(raw);
+    paragraph.push({
+      entry,
+      text: sentenceStart && !isPunctuation ? capitalize(raw) : raw,
+      spaceBefore: paragraph.length > 0 && !isPunctuation && !afterOpening,
+    });
+
+    if (!isPunctuation || endsSentence(raw)) {
+      sentenceStart = endsSentence(raw);
+    }
+    afterOpening = openingPunctuation.test(raw);
+  });
+
+  return paragraphs.filter((paragraph) => paragraph.length > 0);
+}
+
+/** The story as plain text, paragraphs separated by blank lines. For sharing and previews. */
+export function formatStoryText(words: string[], options: FormatOptions = {}) {
+  return formatStory(words, (word) => word, options)
+    .map((paragraph) => paragraph.map((token) => (token.spaceBefore ? ' ' : '') + token.text).join(''))
+    .join('\n\n');
+}
+
+/** The last few words of a story for list cards, with a leading ellipsis if earlier words are missing. */
+export function formatStoryPreview(recentWords: string[], wordCount: number) {
+  const partial = wordCount > recentWords.length;
+  const text = formatStoryText(recentWords, { partial }).replace(/\n\n/g, ' ');
+  return partial ? `…${text}` : text;
+}
@@ -1,214 +1,1961 @@
 import {
-  collection,
-  doc,
-  getDoc,
-  getDocs,
-  onSnapshot,
-  query,
-  runTransaction,
-  serverTimestamp,
-  setDoc,
-  where,
-  type FirestoreError,
+  cleanContribution,
+  defaultContributionMode,
+  normalizeContributionMode,
+  validateContribution,
+  type ContributionMode,
+} from './contribution-mode';
+import {
+  getChildPlayerId,
+  getChildProfileInTransaction,
+  getParentalSettingsInTransaction,
+  isChildPlayerId,
+} from './child-profile';
+import {
+  blockedWordMessage,
+  findBlockedWords,
+  normalizeContentFilter,
+  stricterContentFilter,
+  type ContentFilterLevel,
+} from './content-filter';
+import { describeUnknownWords, findUnknownWords, normalizeDictionaryWord } from './dictionary';
+import { isFamilyMember } from './family';
+import { generateInviteToken } from './invite-link';
+import { generateJoinCode } from './join-code';
+import { endSentenceToken, newParagraphToken } from './story-format';
+import { cleanStarter, type StoryStarter } from './story-starter';
+import {
+  getStoryStore,
+  isPermissionDenied,
+  toMillis,
+  type StoreData,
+  type StoreDocument,
+  type StoryTransaction,
   type Unsubscribe,
-} from 'firebase/firestore';
+} from './story-store';
+import { getBlanks, maxTemplateTextLength, templateAnswerMode, type StoryTemplate } from './story-template';
 
-import { getDb } from './firebase';
+/**
+ * `lobby`: players join and get ready. `playing`: turns run in a fixed order.
+ * `finished`: no more words; a host can archive the story and start the next round.
+ */
+export type StoryStatus = 'lobby' | 'playing' | 'finished';
 
 export type StorySessionState = {
+  status: StoryStatus;
+  /** Players who said they're ready in the lobby. */
+  readyPlayerIds: string[];
+  /** Play stops once the story reaches this many words; `null` for no target. */
+  targetWordCount: number | null;
+  /** Play stops at this epoch ms; `null` for no end date. */
+  endsAt: number | null;
   players: Player[];
-  storyWords: string[];
+  /** The most recent words, oldest first. Earlier pages come from `getStoryWords`. */
+  storyWords: StoryWord[];
+  wordCount: number;
   activePlayerIndex: number;
+  /** Count of turns taken so far. Never goes backwards, so stale submissions can be detected. */
+  turnNumber: number;
+  /** Uid of whoever created the story; `null` for stories made before explicit creation. */
+  createdBy: string | null;
+  createdAt: number | null;
+  /** Can reset the story, manage players and settings, and hand ownership on. */
+  ownerId: string | null;
+  /** Players the owner has trusted with the same powers, except changing roles. */
+  coHostIds: string[];
+  /** How long each turn may last before anyone can skip it; `null` means no limit. */
+  turnTimeLimitMs: number | null;
+  /** Epoch ms when the current turn began, by the backend's clock. */
+  turnStartedAt: number | null;
+  /** How much each turn adds: a word, a few words, a sentence or a paragraph. */
+  contributionMode: ContributionMode;
+  /** Which round of the story this is, starting at 1. Finished rounds are in the archive. */
+  roundNumber: number;
+  /**
+   * Where this round's words are kept: `sessions/{id}/rounds/{roundId}/words`. `null` for
+   * stories from before rounds had ids, whose words are in `sessions/{id}/words`.
+   */
+  roundId: string | null;
+  roundStartedAt: number | null;
+  /** Whether new players join straight away or wait for a host. */
+  joinPolicy: JoinPolicy;
+  /** The family the story belongs to, whose members all see it and join without approval. */
+  familyId: string | null;
+  /** The starter shown above the story, a copy so later edits to the source don't change it. */
+  starter: StoryStarter | null;
+  /**
+   * Set for a fill-in-the-blank story: each turn fills the next blank, and the story is
+   * only shown once the last one is filled. Fixes the mode and the word target while set.
+   */
+  template: StoryTemplate | null;
+  /**
+   * Set for a hidden story: players see only this many of the latest words until the round
+   * ends. Earlier words are withheld from everyone but hosts, by the security rules too.
+   */
+  visibleWordCount: number | null;
+  /** How careful the word filter is. Kids' words also get their parent's setting. */
+  contentFilter: ContentFilterLevel;
+  /** Whether words the filter catches wait for a host instead of being turned away. */
+  reviewFlaggedWords: boolean;
+  /** Caught words waiting for a host, oldest first. */
+  flaggedWords: FlaggedWord[];
+  /** Whether words must be in the dictionary (or `allowedWords`, or a player's name). */
+  dictionaryCheck: boolean;
+  /** Names and made-up words a host let in, lowercased. */
+  allowedWords: string[];
   playerIds?: string[];
 };
 
 export type Player = {
   id: string;
   name: string;
+  /** Epoch ms of first joining; the longest-standing player inherits ownership. */
+  joinedAt?: number;
+  /**
+   * Set for pass-and-play players who share someone else's device: the uid of that
+   * signed-in account. Their ids start with `local:` so they never clash with auth uids.
+   * Child profiles are managed the same way, with ids from getChildPlayerId().
+   */
+  managedBy?: string;
+  /** A child profile's avatar. */
+  avatar?: string;
+};
+
+/**
+ * `open`: anyone with the join code is in at once, and can see the story before joining.
+ * `approval`: a host lets each new player in; until then the story is hidden from them.
+ */
+export type JoinPolicy = 'open' | 'approval';
+
+export type JoinOutcome = 'joined' | 'requested';
+
+/** Someone waiting for a host to let them in, kept in `sessions/{id}/joinRequests/{uid}`. */
+export type JoinRequest = {
+  /** The requester's uid. */
+  id: string;
+  name: string;
+  /** Epoch ms from the requester's clock. */
+  requestedAt: number;
+};
+
+/** `added`: the word is in the story. `held`: the filter caught it and a host will decide. */
+export type WordOutcome = 'added' | 'held';
+
+/** A word the filter caught. Its turn waits until a host approves or turns it down. */
+export type FlaggedWord = {
+  /** The turn it was written for. Once that turn has moved on it can only be dismissed. */
+  turn: number;
+  word: string;
+  authorId: string;
+  /** Epoch ms from the writer's clock; becomes the word's `createdAt` if approved. */
+  submittedAt: number;
+};
+
+export type StoryWord = {
+  /** Position in the story, starting at 0. Also the word's document id. */
+  index: number;
+  /** What was added on that turn: a single word unless the story's mode allows more. */
+  word: string;
+  /** `null` for words written before authorship was recorded. */
+  authorId: string | null;
+  /** The session `turnNumber` the word was written on. */
+  turn: number;
+  /** Epoch ms from the writer's clock, so the copy in `recentWords` matches the word doc. */
+  createdAt: number | null;
+};
+
+/**
+ * A finished round, kept in `sessions/{id}/archive/{roundNumber}`. Its words stay where
+ * they were written; load them with `getArchivedStoryWords`.
+ */
+export type ArchivedStory = {
+  roundNumber: number;
+  title: string;
+  /** Everyone who wrote at least one word, or all players if nobody did. */
+  participants: Player[];
+  /** The fill-in template the answers go into, for rounds played with one. */
+  templateText?: string;
+  wordCount: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  finishedBy: string;
 };
 
-type StorySessionDoc = StorySessionState & {
+/** A revocable way into a story without a host's approval, kept in `sessions/{id}/invites/{token}`. */
+export type StoryInvite = {
+  token: string;
+  createdBy: string;
+  createdAt: number | null;
+  /** Epoch ms after which the invite stops working; `null` if it never expires. */
+  expiresAt: number | null;
+};
+
+type StoryInviteDoc = Omit<StoryInvite, 'createdAt'> & { createdAt?: unknown };
+
+type ArchivedStoryDoc = Omit<ArchivedStory, 'finishedAt'> & {
+  finishedAt?: unknown;
+  /** The round whose words these are, as in `StorySessionState`. */
+  roundId?: string | null;
+  /** Rounds archived before words stayed in their round's collection carry them all here. */
+  words?: string[];
+};
+
+// Before words moved to `sessions/{id}/words`, the session doc held the whole story
+// in `storyWords`, first as bare strings and later as records without an index.
+type LegacyWord = Omit<StoryWord, 'index'> | string;
+
+type StorySessionDoc = Omit<
+  StorySessionState,
+  | 'turnNumber'
+  | 'storyWords'
+  | 'wordCount'
+  | 'createdBy'
+  | 'createdAt'
+  | 'ownerId'
+  | 'coHostIds'
+  | 'turnTimeLimitMs'
+  | 'turnStartedAt'
+  | 'contributionMode'
+  | 'roundNumber'
+  | 'roundId'
+  | 'roundStartedAt'
+  | 'joinPolicy'
+  | 'familyId'
+  | 'starter'
+  | 'template'
+  | 'visibleWordCount'
+  | 'contentFilter'
+  | 'reviewFlaggedWords'
+  | 'flaggedWords'
+  | 'dictionaryCheck'
+  | 'allowedWords'
+  | 'status'
+  | 'readyPlayerIds'
+  | 'targetWordCount'
+  | 'endsAt'
+> & {
+  status?: StoryStatus;
+  readyPlayerIds?: string[];
+  targetWordCount?: number | null;
+  endsAt?: number | null;
+  turnNumber?: number;
+  createdBy?: string;
+  createdAt?: unknown;
+  ownerId?: string | null;
+  coHostIds?: string[];
+  turnTimeLimitMs?: number | null;
+  turnStartedAt?: unknown;
+  contributionMode?: ContributionMode;
+  roundNumber?: number;
+  roundId?: string | null;
+  roundStartedAt?: unknown;
+  joinPolicy?: JoinPolicy;
+  familyId?: string | null;
+  starter?: StoryStarter | null;
+  template?: StoryTemplate | null;
+  visibleWordCount?: number | null;
+  contentFilter?: ContentFilterLevel;
+  reviewFlaggedWords?: boolean;
+  flaggedWords?: FlaggedWord[];
+  dictionaryCheck?: boolean;
+  allowedWords?: string[];
+  wordCount?: number;
+  /** Copy of the last few words so lists and previews don't need the subcollection. */
+  recentWords?: StoryWord[];
+  /** Who left during this round, so the archive can still credit their words. */
+  formerPlayers?: Player[];
+  storyWords?: LegacyWord[];
+  updatedAt?: unknown;
+};
+
+export type StorySessionSummary = Omit<StorySessionState, 'storyWords' | 'playerIds'> & {
+  id: string;
+  recentWords: StoryWord[];
   updatedAt?: unknown;
 };
 
+/** Who is taking a turn (adding a word or passing), and which turn they saw. */
+export type WordSubmission = {
+  playerId: string;
+  /** The signed-in account making the move, if not `playerId` itself (a pass-and-play player). */
+  actorId?: string;
+  /** The `turnNumber` the player saw when they typed the word. */
+  expectedTurn: number;
+};
+
+export class StoryNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`No story found with the code ${sessionId}.`);
+    this.name = new.target.name;
+  }
+}
+
+export class StoryPermissionError extends Error {
+  constructor(message = 'Only the story owner or a co-host can do that.') {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidContributionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class PrivateStoryError extends Error {
+  constructor() {
+    super('Only players and family can see this story. Ask to join and a host will let you in.');
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidInviteError extends Error {
+  constructor() {
+    super('This invite has expired or was turned off. Ask the host for a new one.');
+    this.name = new.target.name;
+  }
+}
+
+export class StoryTurnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class NotAPlayerError extends StoryTurnError {
+  constructor() {
+    super('Join this story before adding words.');
+  }
+}
+
+export class StaleTurnError extends StoryTurnError {
+  constructor() {
+    super('The story moved on before your word arrived. Check the latest words and try again.');
+  }
+}
+
+export class StoryNotPlayingError extends StoryTurnError {
+  constructor(status: StoryStatus) {
+    super(
+      status === 'lobby'
+        ? "This story hasn't started yet. The host starts it from the lobby."
+        : 'This story has finished. No more words can be added.'
+    );
+  }
+}
+
+export class WordUnderReviewError extends StoryTurnError {
+  constructor() {
+    super('Your last word is waiting for a host to check it.');
+  }
+}
+
+export class NotYourTurnError extends StoryTurnError {
+  constructor(activePlayerName?: string) {
+    super(activePlayerName ? `It's ${activePlayerName}'s turn, not yours.` : "It's not your turn yet.");
+  }
+}
+
 const collectionName = 'sessions';
+const wordsCollectionName = 'words';
+const roundsCollectionName = 'rounds';
+const archiveCollectionName = 'archive';
+const invitesCollectionName = 'invites';
+// One doc per player who joined with an invite, recording which one. The security rules
+// check it to let them skip approval.
+const admissionsCollectionName = 'admissions';
+const joinRequestsCollectionName = 'joinRequests';
 
-const emptySession: StorySessionState = { players: [], storyWords: [], activePlayerIndex: 0 };
+const recentWordsLimit = 5;
+export const maxVisibleWordCount = recentWordsLimit;
+const maxJoinCodeAttempts = 5;
+const maxTitleLength = 80;
+const maxAllowedWords = 100;
+export const storyPageSize = 50;
+// Firestore caps a transaction at 500 writes.
+const writeBatchSize = 400;
+// Long enough for a week-long holiday, short enough to keep a game moving.
+const maxTurnTimeLimitMs = 7 * 24 * 60 * 60 * 1000;
+// The security rules can't loop, so they check at most this many removed players per write.
+const maxPlayersLeavingTogether = 16;
+// Keeps the session doc small if people keep joining and leaving; the oldest are dropped.
+const maxFormerPlayers = 50;
 
-function getSessionRef(sessionId: string) {
-  const db = getDb();
-  return doc(db, collectionName, sessionId);
+const emptySession: StorySessionDoc = {
+  status: 'lobby',
+  readyPlayerIds: [],
+  targetWordCount: null,
+  endsAt: null,
+  players: [],
+  activePlayerIndex: 0,
+  turnNumber: 0,
+  turnTimeLimitMs: null,
+  contributionMode: defaultContributionMode,
+  roundNumber: 1,
+  joinPolicy: 'approval',
+  familyId: null,
+  starter: null,
+  template: null,
+  visibleWordCount: null,
+  contentFilter: 'family',
+  reviewFlaggedWords: false,
+  flaggedWords: [],
+  dictionaryCheck: false,
+  allowedWords: [],
+  wordCount: 0,
+  recentWords: [],
+};
+
+function getSessionPath(sessionId: string) {
+  return `${collectionName}/${sessionId}`;
+}
+
+// Each round writes to its own collection, so starting a new round is a single write
+// and finished rounds keep their words for the archive.
+function getWordsPath(sessionId: string, roundId: string | null) {
+  const parent = roundId ? getRoundPath(sessionId, roundId) : getSessionPath(sessionId);
+  return `${parent}/${wordsCollectionName}`;
+}
+
+// Written when the round is archived: the rules only show players past rounds marked this way.
+function getRoundPath(sessionId: string, roundId: string) {
+  return `${getSessionPath(sessionId)}/${roundsCollectionName}/${roundId}`;
+}
+
+function getWordPath(sessionId: string, roundId: string | null, index: number) {
+  return `${getWordsPath(sessionId, roundId)}/${index}`;
+}
+
+function getArchivePath(sessionId: string) {
+  return `${getSessionPath(sessionId)}/${archiveCollectionName}`;
+}
+
+function getInvitesPath(sessionId: string) {
+  return `${getSessionPath(sessionId)}/${invitesCollectionName}`;
+}
+
+function getAdmissionsPath(sessionId: string) {
+  return `${getSessionPath(sessionId)}/${admissionsCollectionName}`;
+}
+
+function getJoinRequestsPath(sessionId: string) {
+  return `${getSessionPath(sessionId)}/${joinRequestsCollectionName}`;
 }
 
-function normalizePlayers(players: Player[], activeIndex: number): { players: Player[]; activeIndex: number } {
+/**
+ * Drops blank and duplicate players and works out whose turn it is. `activeIndex`
+ * points into `previous`, the list before any edit: the turn stays with the same
+ * person, or moves on to whoever sat after them if they are gone.
+ */
+function normalizePlayers(
+  players: Player[],
+  activeIndex: number,
+  previous: Player[] = players
+): { players: Player[]; activeIndex: number } {
   const cleaned = players
     .filter((player) => Boolean(player.id) && Boolean(player.name?.trim()))
+    .filter((player, index, all) => all.findIndex((other) => other.id === player.id) === index)
     .map((player) => ({ ...player, name: player.name.trim() }));
 
-  const clampedIndex = cleaned.length ? Math.min(activeIndex, cleaned.length - 1) : 0;
-  return { players: cleaned, activeIndex: clampedIndex };
+  if (!cleaned.length || !previous.length) return { players: cleaned, activeIndex: 0 };
+
+  const start = Number.isInteger(activeIndex) ? Math.min(Math.max(activeIndex, 0), previous.length - 1) : 0;
+  for (let step = 0; step < previous.length; step += 1) {
+    const candidate = previous[(start + step) % previous.length];
+    const nextIndex = cleaned.findIndex((player) => player.id === candidate?.id);
+    if (nextIndex >= 0) return { players: cleaned, activeIndex: nextIndex };
+  }
+  return { players: cleaned, activeIndex: 0 };
 }
 
-function mergePlayerIds(players: Player[]) {
-  return Array.from(new Set(players.map((player) => player.id).filter(Boolean)));
+function hasLegacyWords(data: StorySessionDoc): data is StorySessionDoc & { storyWords: LegacyWord[] } {
+  return Array.isArray(data.storyWords);
+}
+
+function normalizeLegacyWords(words: LegacyWord[]): StoryWord[] {
+  return words.map((entry, index) =>
+    typeof entry === 'string'
+      ? { index, word: entry, authorId: null, turn: index, createdAt: null }
+      : { ...entry, index }
+  );
+}
+
+function readWordCount(data: StorySessionDoc) {
+  return hasLegacyWords(data) ? data.storyWords.length : data.wordCount ?? 0;
+}
+
+function readRecentWords(data: StorySessionDoc) {
+  return hasLegacyWords(data) ? normalizeLegacyWords(data.storyWords).slice(-recentWordsLimit) : data.recentWords ?? [];
+}
+
+// Docs written before turn tracking took exactly one turn per word.
+function readTurnNumber(data: StorySessionDoc) {
+  return data.turnNumber ?? data.storyWords?.length ?? 0;
+}
+
+// Stories from before roles existed fall back to their creator, then the first player.
+function readOwnerId(data: StorySessionDoc, players: Player[]) {
+  return data.ownerId !== undefined ? data.ownerId : data.createdBy ?? players[0]?.id ?? null;
+}
+
+function readSessionMeta(data: StorySessionDoc): Omit<StorySessionState, 'storyWords' | 'playerIds'> {
+  const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
+  return {
+    // Stories from before the lobby existed were always in play.
+    status: data.status ?? 'playing',
+    readyPlayerIds: data.readyPlayerIds ?? [],
+    targetWordCount: data.targetWordCount ?? null,
+    endsAt: data.endsAt ?? null,
+    players,
+    wordCount: readWordCount(data),
+    activePlayerIndex: activeIndex,
+    turnNumber: readTurnNumber(data),
+    createdBy: data.createdBy ?? null,
+    createdAt: toMillis(data.createdAt),
+    ownerId: readOwnerId(data, players),
+    coHostIds: data.coHostIds ?? [],
+    turnTimeLimitMs: data.turnTimeLimitMs ?? null,
+    turnStartedAt: toMillis(data.turnStartedAt),
+    contributionMode: normalizeContributionMode(data.contributionMode),
+    roundNumber: data.roundNumber ?? 1,
+    roundId: data.roundId ?? null,
+    // The first round started when the story did.
+    roundStartedAt: toMillis(data.roundStartedAt ?? data.createdAt),
+    // Older stories get the safe default too: knowing the code shouldn't be enough to get in.
+    joinPolicy: data.joinPolicy ?? 'approval',
+    familyId: data.familyId ?? null,
+    starter: data.starter ?? null,
+    template: data.template ?? null,
+    visibleWordCount: data.visibleWordCount ?? null,
+    contentFilter: normalizeContentFilter(data.contentFilter),
+    reviewFlaggedWords: data.reviewFlaggedWords ?? false,
+    flaggedWords: data.flaggedWords ?? [],
+    dictionaryCheck: data.dictionaryCheck ?? false,
+    allowedWords: data.allowedWords ?? [],
+  };
+}
+
+/** When the current turn runs out, in epoch ms, or `null` if turns aren't timed. */
+export function getTurnDeadline({
+  turnTimeLimitMs,
+  turnStartedAt,
+}: Pick<StorySessionState, 'turnTimeLimitMs' | 'turnStartedAt'>) {
+  return turnTimeLimitMs && turnStartedAt !== null ? turnStartedAt + turnTimeLimitMs : null;
+}
+
+function requireStatus(data: StorySessionDoc, status: StoryStatus) {
+  const current = data.status ?? 'playing';
+  if (current === status) return;
+  if (current !== 'playing') throw new StoryNotPlayingError(current);
+  throw new Error('This story has already started.');
 }
 
-export async function ensureSessionExists(sessionId: string, seed?: Partial<StorySessionState>) {
-  const ref = getSessionRef(sessionId);
-  const snapshot = await getDoc(ref);
+// Past the end date, turns stop until someone calls `endSessionIfDue`.
+function requirePlaying(data: StorySessionDoc) {
+  requireStatus(data, 'playing');
+  if (data.endsAt && Date.now() >= data.endsAt) {
+    throw new StoryNotPlayingError('finished');
+  }
+}
 
-  if (snapshot.exists()) {
-    return;
+function requireTurn(players: Player[], activeIndex: number, turnNumber: number, submission: WordSubmission) {
+  if (!players.some((player) => player.id === submission.playerId)) {
+    throw new NotAPlayerError();
+  }
+  if (submission.expectedTurn !== turnNumber) {
+    throw new StaleTurnError();
   }
+  if (players[activeIndex].id !== submission.playerId) {
+    throw new NotYourTurnError(players[activeIndex].name);
+  }
+  if (!canActFor(players[activeIndex], submission.actorId ?? submission.playerId)) {
+    throw new NotYourTurnError(players[activeIndex].name);
+  }
+}
 
-  const defaults: StorySessionState = {
-    ...emptySession,
-    ...seed,
+// Hands the turn to the next player and restarts the turn clock.
+function advanceTurn(players: Player[], activeIndex: number, turnNumber: number) {
+  return {
+    activePlayerIndex: players.length ? (activeIndex + 1) % players.length : 0,
+    turnNumber: turnNumber + 1,
+    turnStartedAt: getStoryStore().serverTimestamp(),
   };
+}
+
+function isHost(data: StorySessionDoc, playerId: string) {
+  const { ownerId, coHostIds } = readSessionMeta(data);
+  return ownerId === playerId || coHostIds.includes(playerId);
+}
+
+function requireHost(data: StorySessionDoc, actorId: string) {
+  if (!isHost(data, actorId)) {
+    throw new StoryPermissionError();
+  }
+}
 
-  await setDoc(ref, { ...defaults, playerIds: mergePlayerIds(defaults.players), updatedAt: serverTimestamp() });
+function requireOwner(data: StorySessionDoc, actorId: string) {
+  if (readSessionMeta(data).ownerId !== actorId) {
+    throw new StoryPermissionError('Only the story owner can change roles.');
+  }
 }
 
+export function isLocalPlayer(player: Player) {
+  return Boolean(player.managedBy);
+}
+
+/** Whether the signed-in `uid` may take `player`'s turns: their own, or a local player on their device. */
+export function canActFor(player: Player | undefined, uid: string) {
+  return Boolean(player && (player.managedBy ?? player.id) === uid);
+}
+
+// Players without `joinedAt` predate it, so they count as the earliest joiners. Local
+// players have no account to own a story with, so they are skipped.
+function longestStandingPlayer(players: Player[]) {
+  return players.filter((player) => !isLocalPlayer(player)).reduce<Player | undefined>(
+    (earliest, player) => (!earliest || (player.joinedAt ?? 0) < (earliest.joinedAt ?? 0) ? player : earliest),
+    undefined
+  );
+}
+
+// Reads the session in a transaction and merges in whatever `update` returns. `null`
+// leaves the session as it is: the rules turn down a write that changes nothing.
+async function updateSession(
+  sessionId: string,
+  update: (data: StorySessionDoc, transaction: StoryTransaction) => StoreData | null | Promise<StoreData | null>
+) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+
+  await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(path);
+    if (!data) throw new StoryNotFoundError(sessionId);
+
+    const patch = await update(data, transaction);
+    if (patch) {
+      transaction.set(path, { ...patch, updatedAt: store.serverTimestamp() }, { merge: true });
+    }
+  });
+}
+
+async function runInBatches<T>(items: T[], write: (transaction: StoryTransaction, item: T) => void) {
+  const store = getStoryStore();
+  for (let start = 0; start < items.length; start += writeBatchSize) {
+    await store.runTransaction(async (transaction) => {
+      items.slice(start, start + writeBatchSize).forEach((item) => write(transaction, item));
+    });
+  }
+}
+
+// Only real accounts go in `playerIds`, which backs the "my stories" query.
+function mergePlayerIds(players: Player[]) {
+  return Array.from(
+    new Set(
+      players
+        .filter((player) => !isLocalPlayer(player))
+        .map((player) => player.id)
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Creates a story under a fresh join code, with the creator as its first player.
+ * Resolves to the join code, which doubles as the session id. Pass a `familyId` the
+ * creator belongs to for a family story, and a `starter` to open it with.
+ */
+export async function createSession(
+  creator: Player,
+  { familyId = null, starter = null }: { familyId?: string | null; starter?: StoryStarter | null } = {}
+) {
+  const store = getStoryStore();
+  const { players } = normalizePlayers([{ ...creator, joinedAt: Date.now() }], 0);
+  const storyStarter = starter ? cleanStarter(starter) : null;
+
+  for (let attempt = 0; attempt < maxJoinCodeAttempts; attempt += 1) {
+    const sessionId = generateJoinCode();
+    const path = getSessionPath(sessionId);
+
+    const created = await store.runTransaction(async (transaction) => {
+      if (await transaction.get(path)) return false;
+
+      transaction.set(path, {
+        ...emptySession,
+        players,
+        playerIds: mergePlayerIds(players),
+        createdBy: creator.id,
+        createdAt: store.serverTimestamp(),
+        ownerId: creator.id,
+        coHostIds: [],
+        familyId,
+        starter: storyStarter,
+        roundId: generateInviteToken(),
+        turnStartedAt: store.serverTimestamp(),
+        updatedAt: store.serverTimestamp(),
+      });
+      return true;
+    });
+
+    if (created) return sessionId;
+  }
+
+  throw new Error('Could not find a free join code. Please try again.');
+}
+
+/**
+ * Whether `viewerId` may read the story's word docs. A hidden story's words are only
+ * readable by hosts until the round ends; everyone else gets the session's `recentWords`.
+ */
+export function canReadStoryWords(
+  { visibleWordCount, status, ownerId, coHostIds }: Pick<
+    StorySessionState,
+    'visibleWordCount' | 'status' | 'ownerId' | 'coHostIds'
+  >,
+  viewerId: string | null
+) {
+  return (
+    visibleWordCount === null ||
+    status === 'finished' ||
+    (viewerId !== null && (ownerId === viewerId || coHostIds.includes(viewerId)))
+  );
+}
+
+/** Whether story lists may preview the latest words. Hidden and fill-in stories would give too much away. */
+export function showsStoryPreview({
+  visibleWordCount,
+  template,
+}: Pick<StorySessionState, 'visibleWordCount' | 'template'>) {
+  return visibleWordCount === null && template === null;
+}
+
+/**
+ * Streams the session plus its latest `pageSize` words. Words added while subscribed
+ * are appended to `storyWords`; older words are fetched on demand with `getStoryWords`.
+ * While `viewerId` can't read a hidden story's words, `storyWords` holds just the visible
+ * ones from the session doc. Emits `null` if there is no story with this id, and errors
+ * with `PrivateStoryError` while the viewer isn't allowed to see it.
+ */
 export function subscribeToSession(
   sessionId: string,
-  onChange: (state: StorySessionState) => void,
-  onError?: (error: FirestoreError) => void
+  onChange: (state: StorySessionState | null) => void,
+  onError?: (error: Error) => void,
+  { viewerId = null, pageSize = storyPageSize }: { viewerId?: string | null; pageSize?: number } = {}
 ): Unsubscribe {
-  const ref = getSessionRef(sessionId);
-  return onSnapshot(
-    ref,
-    (snapshot) => {
-      if (!snapshot.exists()) {
+  const store = getStoryStore();
+  let session: StorySessionDoc | null = null;
+  let tailRoundId: string | null = null;
+  let tailStart: number | null = null;
+  let tailWords: StoryWord[] = [];
+  let unsubscribeWords: Unsubscribe | undefined;
+
+  const emit = () => {
+    if (!session) return;
+    const meta = readSessionMeta(session);
+    onChange({
+      ...meta,
+      storyWords: hasLegacyWords(session)
+        ? normalizeLegacyWords(session.storyWords)
+        : tailStart === null
+        ? readRecentWords(session)
+        : tailWords,
+      playerIds: mergePlayerIds(meta.players),
+    });
+  };
+
+  const stopWatchingTail = () => {
+    unsubscribeWords?.();
+    unsubscribeWords = undefined;
+    tailStart = null;
+    tailWords = [];
+  };
+
+  const watchTail = (roundId: string | null, wordCount: number) => {
+    unsubscribeWords?.();
+    tailRoundId = roundId;
+    tailStart = Math.max(0, wordCount - pageSize);
+    tailWords = [];
+    unsubscribeWords = store.subscribeQuery<StoryWord>(
+      getWordsPath(sessionId, roundId),
+      { where: [{ field: 'index', op: '>=', value: tailStart }], orderBy: { field: 'index' } },
+      (docs) => {
+        tailWords = docs.map((entry) => entry.data);
+        emit();
+      },
+      (error) => onError?.(error)
+    );
+  };
+
+  const unsubscribeSession = store.subscribe<StorySessionDoc>(
+    getSessionPath(sessionId),
+    (data) => {
+      if (!data) {
+        onChange(null);
         return;
       }
 
-      const data = snapshot.data() as StorySessionDoc;
-      const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
-      onChange({
-        players,
-        storyWords: data.storyWords ?? [],
-        activePlayerIndex: activeIndex,
-        playerIds: mergePlayerIds(players),
-      });
+      session = data;
+      const wordCount = readWordCount(data);
+      const roundId = data.roundId ?? null;
+      // The rules would turn the query down, so stop before asking; it starts again at the reveal.
+      if (!canReadStoryWords(readSessionMeta(data), viewerId)) {
+        stopWatchingTail();
+      } else if (!hasLegacyWords(data) && (tailStart === null || roundId !== tailRoundId)) {
+        // Start watching once the doc has been migrated, and again for each new round.
+        watchTail(roundId, wordCount);
+      }
+      emit();
     },
-    (error) => onError?.(error)
+    (error) => onError?.(isPermissionDenied(error) ? new PrivateStoryError() : error)
   );
+
+  return () => {
+    unsubscribeSession();
+    unsubscribeWords?.();
+  };
+}
+
+/** Loads up to `limit` of the round's words that come before `beforeIndex`, oldest first. */
+export async function getStoryWords(
+  sessionId: string,
+  roundId: string | null,
+  beforeIndex: number,
+  limit = storyPageSize
+) {
+  const results = await getStoryStore().query<StoryWord>(getWordsPath(sessionId, roundId), {
+    where: [{ field: 'index', op: '<', value: beforeIndex }],
+    orderBy: { field: 'index', direction: 'desc' },
+    limit,
+  });
+  return results.map((entry) => entry.data).reverse();
+}
+
+/** Every word of a round, oldest first, fetched a page at a time. */
+export async function getAllStoryWords(sessionId: string, roundId: string | null) {
+  const words: StoryWord[] = [];
+  let page: StoryWord[];
+  do {
+    page = await getStoryWords(sessionId, roundId, words[0]?.index ?? Number.MAX_SAFE_INTEGER);
+    words.unshift(...page);
+  } while (page.length === storyPageSize);
+  return words;
+}
+
+/**
+ * Copies a legacy `storyWords` array into the words subcollection, then swaps the
+ * session doc over to `wordCount`/`recentWords`. Safe to re-run after a failure:
+ * word docs are keyed by index, so repeated copies overwrite themselves.
+ */
+export async function migrateSessionWords(sessionId: string) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+  const data = await store.get<StorySessionDoc>(path);
+  if (!data || !hasLegacyWords(data)) return;
+
+  const words = normalizeLegacyWords(data.storyWords);
+  const roundId = data.roundId ?? null;
+  await runInBatches(words, (transaction, entry) =>
+    transaction.set(getWordPath(sessionId, roundId, entry.index), entry)
+  );
+
+  await store.runTransaction(async (transaction) => {
+    const latest = await transaction.get<StorySessionDoc>(path);
+    if (!latest || !hasLegacyWords(latest)) return;
+    if (latest.storyWords.length !== words.length) {
+      throw new Error('The story changed while it was being upgraded. Please try again.');
+    }
+
+    const { storyWords, ...rest } = latest;
+    transaction.set(path, {
+      ...rest,
+      wordCount: storyWords.length,
+      recentWords: words.slice(-recentWordsLimit),
+      turnNumber: readTurnNumber(latest),
+      updatedAt: store.serverTimestamp(),
+    });
+  });
+}
+
+// Firestore won't store `undefined`, so optional fields that aren't set are left out.
+function cleanPlayer(player: Player): Player {
+  return Object.fromEntries(Object.entries(player).filter(([, value]) => value !== undefined)) as Player;
+}
+
+function isSamePlayer(a: Player, b: Player) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => a[key as keyof Player] === b[key as keyof Player]);
+}
+
+const finishedStoryMessage = 'This story has finished. You can join once the host starts the next round.';
+
+function newPlayerEntry(player: Player) {
+  return cleanPlayer({ ...player, joinedAt: Date.now() });
+}
+
+// Adds `player` to the end of the rotation, or updates their entry (e.g. a new name) if
+// they are already in. `null` if they are in already, just as they are.
+function withPlayer(data: StorySessionDoc, player: Player): StoreData | null {
+  const nextPlayers = [...(data.players ?? [])];
+  const existingIndex = nextPlayers.findIndex((p) => p.id === player.id);
+  // Late joiners go to the end of the rotation, so the order stays fixed once play starts.
+  if (existingIndex < 0 && data.status === 'finished') {
+    throw new Error(finishedStoryMessage);
+  }
+  if (existingIndex >= 0) {
+    const existing = nextPlayers[existingIndex];
+    const joinedAt = existing.joinedAt ?? player.joinedAt;
+    const updated = cleanPlayer({ ...player, name: player.name.trim(), joinedAt });
+    if (isSamePlayer(existing, updated)) return null;
+    nextPlayers[existingIndex] = updated;
+  } else {
+    nextPlayers.push(newPlayerEntry(player));
+  }
+
+  const { players, activeIndex } = normalizePlayers(nextPlayers, data.activePlayerIndex ?? 0, data.players);
+  return {
+    players,
+    playerIds: mergePlayerIds(players),
+    activePlayerIndex: activeIndex,
+  };
+}
+
+function isJoined(data: StorySessionDoc, playerId: string) {
+  return (data.players ?? []).some((player) => player.id === playerId);
 }
 
+function getJoinRequestPath(sessionId: string, playerId: string) {
+  return `${getJoinRequestsPath(sessionId)}/${playerId}`;
+}
+
+// Whoever joins, however they get in, no longer waits for a host.
+function clearJoinRequest(transaction: StoryTransaction, sessionId: string, playerId: string) {
+  transaction.delete(getJoinRequestPath(sessionId, playerId));
+}
+
+/**
+ * Adds `player` to the story, or renames them if they are already in. New players can
+ * only add themselves like this when the story is open; otherwise use `requestToJoin`.
+ */
 export async function addPlayerToSession(sessionId: string, player: Player) {
-  const ref = getSessionRef(sessionId);
+  await updateSession(sessionId, (data, transaction) => {
+    if (!isJoined(data, player.id)) {
+      if (readSessionMeta(data).joinPolicy !== 'open') {
+        throw new StoryPermissionError('A host has to let new players into this story. Ask to join instead.');
+      }
+      clearJoinRequest(transaction, sessionId, player.id);
+    }
+    return withPlayer(data, player);
+  });
+}
+
+/**
+ * Joins an open story, or one of the player's family stories, straight away; otherwise
+ * leaves a request for a host to approve. Asking again replaces the earlier request.
+ * Resolves to which of the two happened.
+ */
+export async function requestToJoin(sessionId: string, player: Player): Promise<JoinOutcome> {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+  // Set on every attempt, since the transaction may run more than once.
+  let joined = false;
+
+  try {
+    await store.runTransaction(async (transaction) => {
+      joined = false;
+      const data = await transaction.get<StorySessionDoc>(path);
+      if (!data) throw new StoryNotFoundError(sessionId);
+
+      const { joinPolicy, familyId } = readSessionMeta(data);
+      // Family members see the family's stories anyway, so they don't wait for approval.
+      const inFamily = familyId !== null && (await isFamilyMember(transaction, familyId, player.id));
+      if (joinPolicy !== 'open' && !inFamily && !isJoined(data, player.id)) return;
+
+      clearJoinRequest(transaction, sessionId, player.id);
+      const patch = withPlayer(data, player);
+      if (patch) {
+        transaction.set(path, { ...patch, updatedAt: store.serverTimestamp() }, { merge: true });
+      }
+      joined = true;
+    });
+  } catch (error) {
+    // Outsiders can't read a story that needs approval, so they just leave a request.
+    if (!isPermissionDenied(error)) throw error;
+  }
+  if (joined) return 'joined';
+
+  const joinRequest: JoinRequest = { id: player.id, name: player.name, requestedAt: Date.now() };
+  await store.set(getJoinRequestPath(sessionId, player.id), joinRequest);
+  return 'requested';
+}
+
+/** Takes back the signed-in user's own join request. */
+export async function cancelJoinRequest(sessionId: string, userId: string) {
+  await getStoryStore().delete(getJoinRequestPath(sessionId, userId));
+}
+
+/** Streams the story's join requests, oldest first. Hosts only. */
+export function subscribeToJoinRequests(
+  sessionId: string,
+  onChange: (joinRequests: JoinRequest[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return getStoryStore().subscribeQuery<JoinRequest>(
+    getJoinRequestsPath(sessionId),
+    { orderBy: { field: 'requestedAt' } },
+    (docs) => onChange(docs.map((entry) => entry.data)),
+    (error) => onError?.(error)
+  );
+}
+
+/** Streams `userId`'s own join request; `null` when there is none, or once it's answered. */
+export function subscribeToJoinRequest(
+  sessionId: string,
+  userId: string,
+  onChange: (joinRequest: JoinRequest | null) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  return getStoryStore().subscribe<JoinRequest>(getJoinRequestPath(sessionId, userId), onChange, (error) =>
+    onError?.(error)
+  );
+}
+
+/** Lets a waiting requester in, at the end of the rotation. Hosts only. */
+export async function approveJoinRequest(sessionId: string, actorId: string, requesterId: string) {
+  await updateSession(sessionId, async (data, transaction) => {
+    const joinRequest = await transaction.get<JoinRequest>(getJoinRequestPath(sessionId, requesterId));
+    requireHost(data, actorId);
+    if (!joinRequest) {
+      throw new Error('That join request was withdrawn or already answered.');
+    }
+
+    clearJoinRequest(transaction, sessionId, requesterId);
+    return withPlayer(data, { id: joinRequest.id, name: joinRequest.name });
+  });
+}
+
+/** Turns a join request down. The requester may ask again. Hosts only. */
+export async function denyJoinRequest(sessionId: string, actorId: string, requesterId: string) {
+  await getStoryStore().runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(getSessionPath(sessionId));
+    if (!data) throw new StoryNotFoundError(sessionId);
+    requireHost(data, actorId);
+
+    clearJoinRequest(transaction, sessionId, requesterId);
+  });
+}
+
+/**
+ * Moves the story into one of the actor's families, or out of any with `null`. Hosts
+ * only, and only into a family they belong to.
+ */
+export async function setStoryFamily(sessionId: string, actorId: string, familyId: string | null) {
+  await updateSession(sessionId, async (data, transaction) => {
+    requireHost(data, actorId);
+    if (familyId !== null && !(await isFamilyMember(transaction, familyId, actorId))) {
+      throw new StoryPermissionError('You can only add stories to families you belong to.');
+    }
+    return { familyId };
+  });
+}
+
+/** Swaps the story's starter, or clears it with `null`. Hosts only, before the first word. */
+export async function setStoryStarter(sessionId: string, actorId: string, starter: StoryStarter | null) {
+  const storyStarter = starter ? cleanStarter(starter) : null;
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    if (readSessionMeta(data).wordCount > 0) {
+      throw new Error('The starter can only change before the first word.');
+    }
+    return { starter: storyStarter };
+  });
+}
+
+function requireNoTemplate(data: StorySessionDoc) {
+  if (data.template) {
+    throw new Error('Answers in a fill-in story are a few words each. Turn the template off first.');
+  }
+}
+
+/**
+ * Turns the story into a fill-in-the-blank game with `template`, or back into a normal
+ * story with `null`. Hosts only, in the lobby before the first word. One blank is filled
+ * per turn and the story finishes when they all are.
+ */
+export async function setStoryTemplate(sessionId: string, actorId: string, template: StoryTemplate | null) {
+  const blanks = template ? getBlanks(template.text) : [];
+  if (template && (!blanks.length || template.text.length > maxTemplateTextLength)) {
+    throw new Error('That template has no blanks to fill.');
+  }
+
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    requireStatus(data, 'lobby');
+    if (readSessionMeta(data).wordCount > 0) {
+      throw new Error('Start a new round before switching to a fill-in story.');
+    }
+    return template
+      ? {
+          template: { id: template.id, title: template.title, text: template.text },
+          targetWordCount: blanks.length,
+          contributionMode: templateAnswerMode,
+        }
+      : { template: null, targetWordCount: null, contributionMode: defaultContributionMode };
+  });
+}
+
+/**
+ * Hides the story while it's played: players see only the latest `visibleWordCount` words,
+ * and the whole story is revealed when the round ends. `null` shows everything again.
+ * Hosts only, in the lobby before the first word.
+ */
+export async function setHiddenStory(sessionId: string, actorId: string, visibleWordCount: number | null) {
+  if (
+    visibleWordCount !== null &&
+    (!Number.isInteger(visibleWordCount) || visibleWordCount < 1 || visibleWordCount > maxVisibleWordCount)
+  ) {
+    throw new Error(`Players can see between 1 and ${maxVisibleWordCount} words.`);
+  }
+
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    requireStatus(data, 'lobby');
+    if (readSessionMeta(data).wordCount > 0) {
+      throw new Error('Start a new round before hiding the story.');
+    }
+    return { visibleWordCount };
+  });
+}
+
+/** Chooses whether new players need a host's approval. Waiting requests stay until answered. */
+export async function setJoinPolicy(sessionId: string, actorId: string, joinPolicy: JoinPolicy) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    return { joinPolicy };
+  });
+}
+
+/**
+ * Adds a pass-and-play player who takes turns on `managerId`'s device. The manager must
+ * already be in the story. Resolves to the new player's id.
+ */
+export async function addLocalPlayer(sessionId: string, managerId: string, name: string) {
+  const player: Player = {
+    id: `local:${managerId}:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim(),
+    managedBy: managerId,
+    joinedAt: Date.now(),
+  };
+  if (!player.name) {
+    throw new Error('Give the new player a name.');
+  }
+
+  await updateSession(sessionId, (data) => {
+    const { players, activePlayerIndex, status } = readSessionMeta(data);
+    if (status === 'finished') {
+      throw new Error('This story has finished. Add players once the host starts the next round.');
+    }
+    if (!players.some((existing) => existing.id === managerId && !isLocalPlayer(existing))) {
+      throw new StoryPermissionError('Join this story before adding players on your device.');
+    }
+
+    // Appended like any late joiner, so the turn order so far is kept.
+    const next = normalizePlayers([...players, player], activePlayerIndex, players);
+    return { players: next.players, activePlayerIndex: next.activeIndex };
+  });
+
+  return player.id;
+}
+
+/**
+ * Adds one of `parentId`'s child profiles as a player the parent takes turns for. The
+ * parent must be in the story, or the story must belong to one of their families; stories
+ * outside their families also need the parent's `canJoinPublicStories` setting.
+ */
+export async function addChildPlayer(sessionId: string, parentId: string, childId: string) {
+  const playerId = getChildPlayerId(parentId, childId);
 
-  await runTransaction(getDb(), async (transaction) => {
-    const snapshot = await transaction.get(ref);
-    const data = (snapshot.data() as StorySessionDoc | undefined) ?? emptySession;
-    const nextPlayers = [...(data.players ?? [])];
-    const existingIndex = nextPlayers.findIndex((p) => p.id === player.id);
-    if (existingIndex >= 0) {
-      nextPlayers[existingIndex] = player;
-    } else {
-      nextPlayers.push(player);
+  await updateSession(sessionId, async (data, transaction) => {
+    const { players, activePlayerIndex, status, familyId } = readSessionMeta(data);
+    const child = await getChildProfileInTransaction(transaction, parentId, childId);
+    if (!child) {
+      throw new Error('That child profile no longer exists.');
     }
+    const settings = await getParentalSettingsInTransaction(transaction, parentId);
+    const inFamily = familyId !== null && (await isFamilyMember(transaction, familyId, parentId));
 
-    const { players, activeIndex } = normalizePlayers(nextPlayers, data.activePlayerIndex ?? 0);
-    const playerIds = mergePlayerIds(players);
+    if (players.some((existing) => existing.id === playerId)) {
+      throw new Error(`${child.name} is already in this story.`);
+    }
+    if (status === 'finished') {
+      throw new Error('This story has finished. Add players once the host starts the next round.');
+    }
+    if (!inFamily && !settings.canJoinPublicStories) {
+      throw new StoryPermissionError(`${child.name} can only join family stories. You can change this in Kids.`);
+    }
+    if (!inFamily && !players.some((existing) => existing.id === parentId && !isLocalPlayer(existing))) {
+      throw new StoryPermissionError('Join this story before adding your kids.');
+    }
 
+    const player: Player = {
+      id: playerId,
+      name: child.name,
+      avatar: child.avatar,
+      managedBy: parentId,
+      joinedAt: Date.now(),
+    };
+    const next = normalizePlayers([...players, player], activePlayerIndex, players);
+    return { players: next.players, activePlayerIndex: next.activeIndex };
+  });
+
+  return playerId;
+}
+
+/**
+ * Adds the active player's word. Words the story's filter catches are turned away, or
+ * held for a host when the story reviews flagged words; resolves to which happened.
+ */
+export async function addWordToSession(sessionId: string, word: string, submission: WordSubmission) {
+  const outcome = await appendWord(sessionId, word, submission);
+  if (outcome) return outcome;
+
+  await migrateSessionWords(sessionId);
+  const migratedOutcome = await appendWord(sessionId, word, submission);
+  if (!migratedOutcome) {
+    throw new Error('Could not upgrade this story. Please try again.');
+  }
+  return migratedOutcome;
+}
+
+// The story's filter level, or the parent's if stricter when a child is writing.
+async function readFilterLevel(transaction: StoryTransaction, data: StorySessionDoc, player: Player | undefined) {
+  const level = normalizeContentFilter(data.contentFilter);
+  if (!player?.managedBy || !isChildPlayerId(player.id)) return level;
+
+  const { contentFilter } = await getParentalSettingsInTransaction(transaction, player.managedBy);
+  return stricterContentFilter(level, contentFilter);
+}
+
+// Writes the word doc and moves the turn on; shared by word turns and approved flagged words.
+function writeWord(
+  transaction: StoryTransaction,
+  sessionId: string,
+  data: StorySessionDoc,
+  nextWord: StoryWord,
+  patch: StoreData = {}
+) {
+  const store = getStoryStore();
+  const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
+  const wordCount = readWordCount(data);
+
+  transaction.set(getWordPath(sessionId, data.roundId ?? null, nextWord.index), nextWord);
+  transaction.set(
+    getSessionPath(sessionId),
+    {
+      ...data,
+      ...patch,
+      wordCount: wordCount + 1,
+      // A hidden story keeps only the words players may see on the session doc.
+      recentWords: [...readRecentWords(data), nextWord].slice(-(data.visibleWordCount ?? recentWordsLimit)),
+      players,
+      playerIds: mergePlayerIds(players),
+      ...advanceTurn(players, activeIndex, readTurnNumber(data)),
+      ...(data.targetWordCount && wordCount + 1 >= data.targetWordCount ? { status: 'finished' } : {}),
+      updatedAt: store.serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+// Returns false without writing when the session still needs migrating.
+async function appendWord(sessionId: string, word: string, submission: WordSubmission): Promise<WordOutcome | false> {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+
+  return store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(path);
+    if (!data) throw new StoryNotFoundError(sessionId);
+    if (hasLegacyWords(data)) return false;
+    requirePlaying(data);
+
+    const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
+    const { turnNumber, flaggedWords, reviewFlaggedWords, dictionaryCheck } = readSessionMeta(data);
+
+    requireTurn(players, activeIndex, turnNumber, submission);
+    if (flaggedWords.some((flagged) => flagged.turn === turnNumber)) {
+      throw new WordUnderReviewError();
+    }
+    const invalidReason = validateContribution(word, normalizeContributionMode(data.contributionMode));
+    if (invalidReason) {
+      throw new InvalidContributionError(invalidReason);
+    }
+    if (data.template && (word === endSentenceToken || word === newParagraphToken)) {
+      throw new InvalidContributionError('Fill in the blank, or pass.');
+    }
+    if (dictionaryCheck) {
+      const unknown = findUnknownWords(word, getAllowedWords(data));
+      if (unknown.length) {
+        throw new InvalidContributionError(describeUnknownWords(unknown));
+      }
+    }
+
+    // Checked here as well as in the word box, so an old or modified app can't skip it.
+    const level = await readFilterLevel(transaction, data, players[activeIndex]);
+    if (findBlockedWords(word, level).length) {
+      if (!reviewFlaggedWords) {
+        throw new InvalidContributionError(blockedWordMessage);
+      }
+      const flagged: FlaggedWord = {
+        turn: turnNumber,
+        word: cleanContribution(word),
+        authorId: submission.playerId,
+        submittedAt: Date.now(),
+      };
+      transaction.set(
+        path,
+        { flaggedWords: [...flaggedWords, flagged], updatedAt: store.serverTimestamp() },
+        { merge: true }
+      );
+      return 'held';
+    }
+
+    writeWord(transaction, sessionId, data, {
+      index: readWordCount(data),
+      word: cleanContribution(word),
+      authorId: submission.playerId,
+      turn: turnNumber,
+      createdAt: Date.now(),
+    });
+    return 'added';
+  });
+}
+
+/**
+ * Lets a held word into the story on the turn it was written for. Hosts only; once that
+ * turn has moved on the word can only be turned down.
+ */
+export async function approveFlaggedWord(sessionId: string, actorId: string, turn: number) {
+  const store = getStoryStore();
+
+  await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(getSessionPath(sessionId));
+    if (!data) throw new StoryNotFoundError(sessionId);
+    requireHost(data, actorId);
+    requirePlaying(data);
+
+    const { turnNumber, flaggedWords } = readSessionMeta(data);
+    const flagged = flaggedWords.find((entry) => entry.turn === turn);
+    if (!flagged) {
+      throw new Error('That word has already been dealt with.');
+    }
+    if (turn !== turnNumber || hasLegacyWords(data)) {
+      throw new StoryTurnError('That turn has moved on, so the word can only be turned down.');
+    }
+
+    const approvedWord: StoryWord = {
+      index: readWordCount(data),
+      word: flagged.word,
+      authorId: flagged.authorId,
+      turn,
+      // Matches the queue entry, so the rules can tell this is the word that was held.
+      createdAt: flagged.submittedAt,
+    };
+    writeWord(transaction, sessionId, data, approvedWord, {
+      flaggedWords: flaggedWords.filter((entry) => entry !== flagged),
+    });
+  });
+}
+
+/** Drops a held word. If its turn is still going, the author can try another word. Hosts only. */
+export async function rejectFlaggedWord(sessionId: string, actorId: string, turn: number) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    const { flaggedWords } = readSessionMeta(data);
+    return { flaggedWords: flaggedWords.filter((entry) => entry.turn !== turn) };
+  });
+}
+
+/** Words the dictionary check lets through besides real words: the host's list and players' names. */
+export function getAllowedWords({ allowedWords, players }: { allowedWords?: string[]; players?: Player[] }) {
+  return [...(allowedWords ?? []), ...(players ?? []).flatMap((player) => player.name.split(/\s+/))];
+}
+
+/** Turns the dictionary check on or off. Hosts only. */
+export async function setDictionaryCheck(sessionId: string, actorId: string, dictionaryCheck: boolean) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    return { dictionaryCheck };
+  });
+}
+
+/** Lets a name or made-up word past the dictionary check. Hosts only. */
+export async function allowWord(sessionId: string, actorId: string, word: string) {
+  const allowed = normalizeDictionaryWord(word);
+  if (!allowed || /\s/.test(allowed)) {
+    throw new Error('Allow one word at a time.');
+  }
+
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    const { allowedWords } = readSessionMeta(data);
+    if (allowedWords.includes(allowed)) return {};
+    if (allowedWords.length >= maxAllowedWords) {
+      throw new Error(`A story can allow up to ${maxAllowedWords} extra words.`);
+    }
+    return { allowedWords: [...allowedWords, allowed] };
+  });
+}
+
+export async function removeAllowedWord(sessionId: string, actorId: string, word: string) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    const { allowedWords } = readSessionMeta(data);
+    return { allowedWords: allowedWords.filter((entry) => entry !== word) };
+  });
+}
+
+/** Chooses how careful the word filter is and whether caught words wait for a host. Hosts only. */
+export async function setContentFilter(
+  sessionId: string,
+  actorId: string,
+  settings: Partial<Pick<StorySessionState, 'contentFilter' | 'reviewFlaggedWords'>>
+) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    const current = readSessionMeta(data);
+    return {
+      contentFilter: normalizeContentFilter(settings.contentFilter ?? current.contentFilter),
+      reviewFlaggedWords: settings.reviewFlaggedWords ?? current.reviewFlaggedWords,
+    };
+  });
+}
+
+// Sends the same players back to the lobby with a fresh, empty round. `roundFields` are
+// merged into the same write.
+function clearedStory(data: StorySessionDoc, roundFields: StoreData = {}): StoreData {
+  const store = getStoryStore();
+  const { storyWords: _legacyWords, ...rest } = data;
+  return {
+    ...rest,
+    status: 'lobby',
+    readyPlayerIds: [],
+    roundId: generateInviteToken(),
+    wordCount: 0,
+    recentWords: [],
+    flaggedWords: [],
+    formerPlayers: [],
+    activePlayerIndex: 0,
+    turnStartedAt: store.serverTimestamp(),
+    ...roundFields,
+    updatedAt: store.serverTimestamp(),
+  };
+}
+
+// Best effort: the story has already moved on, and players can't read a round that was never
+// archived, so leftover words are only wasted space.
+async function deleteRoundWords(sessionId: string, roundId: string | null) {
+  const words = await getStoryStore().query(getWordsPath(sessionId, roundId));
+  await runInBatches(words, (transaction, entry) =>
+    transaction.delete(getWordPath(sessionId, roundId, Number(entry.id)))
+  );
+}
+
+/**
+ * Throws the story away without saving it, and starts an empty round at once. The old
+ * words are deleted afterwards. Prefer `finishSessionStory`.
+ */
+export async function resetSessionStory(sessionId: string, actorId: string) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+
+  const discardedRoundId = await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(path);
+    if (!data) throw new StoryNotFoundError(sessionId);
+    requireHost(data, actorId);
+
+    transaction.set(path, clearedStory(data));
+    return data.roundId ?? null;
+  });
+
+  deleteRoundWords(sessionId, discardedRoundId).catch(() => undefined);
+}
+
+/**
+ * Saves the current round to the archive under `title` and starts the next round with
+ * the same players, in one write. The round's words stay where they are. Hosts only.
+ */
+export async function finishSessionStory(sessionId: string, actorId: string, title: string) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+
+  const current = await store.get<StorySessionDoc>(path);
+  if (!current) throw new StoryNotFoundError(sessionId);
+  requireHost(current, actorId);
+  if (hasLegacyWords(current)) {
+    await migrateSessionWords(sessionId);
+  }
+
+  // Only read to credit the authors.
+  const words = (await store.query<StoryWord>(getWordsPath(sessionId, current.roundId ?? null))).map(
+    (entry) => entry.data
+  );
+
+  await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(path);
+    if (!data) throw new StoryNotFoundError(sessionId);
+    requireHost(data, actorId);
+
+    const meta = readSessionMeta(data);
+    if (meta.wordCount !== words.length || meta.roundId !== (current.roundId ?? null)) {
+      throw new Error('Someone added a word while the story was being saved. Please try again.');
+    }
+
+    // Players who left during the round are credited too, as they were when they left.
+    const authorIds = new Set(words.map((entry) => entry.authorId));
+    const everyone = [...meta.players, ...(data.formerPlayers ?? [])];
+    const authors = everyone.filter(
+      (player, index) => authorIds.has(player.id) && everyone.findIndex((other) => other.id === player.id) === index
+    );
+    const archived: ArchivedStoryDoc = {
+      roundNumber: meta.roundNumber,
+      roundId: meta.roundId,
+      title: title.trim().slice(0, maxTitleLength) || `Story ${meta.roundNumber}`,
+      participants: authors.length ? authors : meta.players,
+      wordCount: words.length,
+      startedAt: meta.roundStartedAt,
+      finishedAt: store.serverTimestamp(),
+      finishedBy: actorId,
+      ...(meta.template ? { templateText: meta.template.text } : {}),
+    };
+    transaction.set(`${getArchivePath(sessionId)}/${meta.roundNumber}`, archived);
+    if (meta.roundId) {
+      transaction.set(getRoundPath(sessionId, meta.roundId), { roundNumber: meta.roundNumber });
+    }
     transaction.set(
-      ref,
-      {
-        ...data,
-        players,
-        playerIds,
-        activePlayerIndex: activeIndex,
-        updatedAt: serverTimestamp(),
-      },
-      { merge: true }
+      path,
+      clearedStory(data, { roundNumber: meta.roundNumber + 1, roundStartedAt: store.serverTimestamp() })
     );
   });
 }
 
-export async function addWordToSession(sessionId: string, word: string) {
-  const ref = getSessionRef(sessionId);
+/** Finished rounds of the story, newest first. */
+export async function getArchivedStories(sessionId: string) {
+  const results = await getStoryStore().query<ArchivedStoryDoc>(getArchivePath(sessionId), {
+    orderBy: { field: 'roundNumber', direction: 'desc' },
+  });
+  return results.map<ArchivedStory>(({ data: { words: _words, roundId: _roundId, ...data } }) => ({
+    ...data,
+    finishedAt: toMillis(data.finishedAt),
+  }));
+}
 
-  await runTransaction(getDb(), async (transaction) => {
-    const snapshot = await transaction.get(ref);
-    const data = (snapshot.data() as StorySessionDoc | undefined) ?? emptySession;
-    const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
-    const nextWords = [...(data.storyWords ?? []), word.trim()];
-    const nextActiveIndex = players.length
-      ? (activeIndex + 1) % players.length
-      : 0;
+/** The words of a finished round, in order; for a fill-in round, the answers. */
+export async function getArchivedStoryWords(sessionId: string, roundNumber: number) {
+  const store = getStoryStore();
+  const archived = await store.get<ArchivedStoryDoc>(`${getArchivePath(sessionId)}/${roundNumber}`);
+  if (!archived) return [];
+  if (archived.words) return normalizeLegacyWords(archived.words);
+
+  const results = await store.query<StoryWord>(getWordsPath(sessionId, archived.roundId ?? null), {
+    orderBy: { field: 'index' },
+  });
+  return results.map((entry) => entry.data);
+}
+
+function readInvite(data: StoryInviteDoc): StoryInvite {
+  return { ...data, createdAt: toMillis(data.createdAt), expiresAt: data.expiresAt ?? null };
+}
+
+export function isInviteExpired(invite: Pick<StoryInvite, 'expiresAt'>, now = Date.now()) {
+  return invite.expiresAt !== null && now >= invite.expiresAt;
+}
+
+/** Makes a new invite for the story. Hosts only. `expiresInMs` of `null` means it never expires. */
+export async function createInvite(sessionId: string, actorId: string, expiresInMs: number | null) {
+  if (expiresInMs !== null && !(expiresInMs > 0)) {
+    throw new Error('Pick how long the invite should last.');
+  }
+  const store = getStoryStore();
+  const invite: StoryInvite = {
+    token: generateInviteToken(),
+    createdBy: actorId,
+    createdAt: null,
+    expiresAt: expiresInMs === null ? null : Date.now() + expiresInMs,
+  };
+
+  await store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(getSessionPath(sessionId));
+    if (!data) throw new StoryNotFoundError(sessionId);
+    requireHost(data, actorId);
+
+    transaction.set(`${getInvitesPath(sessionId)}/${invite.token}`, {
+      ...invite,
+      createdAt: store.serverTimestamp(),
+    });
+  });
+
+  return invite;
+}
+
+/** The story's invites, newest first, including expired ones. Hosts only. */
+export async function getInvites(sessionId: string) {
+  const results = await getStoryStore().query<StoryInviteDoc>(getInvitesPath(sessionId), {
+    orderBy: { field: 'createdAt', direction: 'desc' },
+  });
+  return results.map(({ data }) => readInvite(data));
+}
+
+/** Turns an invite off. Players who already joined with it stay in. Hosts only. */
+export async function revokeInvite(sessionId: string, actorId: string, token: string) {
+  await getStoryStore().runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(getSessionPath(sessionId));
+    if (!data) throw new StoryNotFoundError(sessionId);
+    requireHost(data, actorId);
+
+    transaction.delete(`${getInvitesPath(sessionId)}/${token}`);
+  });
+}
+
+/** Joins the story with an invite, skipping the host's approval. Also works in open stories. */
+export async function joinWithInvite(sessionId: string, token: string, player: Player) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+  const invitePath = `${getInvitesPath(sessionId)}/${token}`;
+  const admissionPath = `${getAdmissionsPath(sessionId)}/${player.id}`;
+
+  // Set on every attempt, since the transaction may run more than once.
+  let joinedUnseen = false;
+
+  try {
+    await store.runTransaction(async (transaction) => {
+      joinedUnseen = false;
+      const invite = await transaction.get<StoryInviteDoc>(invitePath);
+      if (!invite || isInviteExpired(readInvite(invite))) {
+        throw new InvalidInviteError();
+      }
+      // A story that needs approval is hidden from outsiders until they hold an admission.
+      let data: StorySessionDoc | null | undefined;
+      try {
+        data = await transaction.get<StorySessionDoc>(path);
+      } catch (error) {
+        if (!isPermissionDenied(error)) throw error;
+      }
+      if (data === null) throw new StoryNotFoundError(sessionId);
+
+      // The admission goes in the same write as the join, which the rules only accept together.
+      transaction.set(admissionPath, { token, usedAt: store.serverTimestamp() });
+      clearJoinRequest(transaction, sessionId, player.id);
+      // Without seeing the story, the player can only add themselves to the end of it.
+      joinedUnseen = data === undefined;
+      const patch = data
+        ? withPlayer(data, player)
+        : { players: store.arrayUnion(newPlayerEntry(player)), playerIds: store.arrayUnion(player.id) };
+      if (patch) {
+        transaction.set(path, { ...patch, updatedAt: store.serverTimestamp() }, { merge: true });
+      }
+    });
+  } catch (error) {
+    // With a valid invite, a story only turns an unseen player away once it has finished.
+    if (joinedUnseen && isPermissionDenied(error)) throw new Error(finishedStoryMessage);
+    throw error;
+  }
+}
+
+/** Changes how much players add per turn. Words already in the story are kept as they are. */
+export async function setContributionMode(sessionId: string, actorId: string, mode: ContributionMode) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    requireNoTemplate(data);
+    return { contributionMode: normalizeContributionMode(mode) };
+  });
+}
+
+/** Marks a player as ready (or not) while the story waits in the lobby. */
+export async function setPlayerReady(sessionId: string, playerId: string, ready: boolean) {
+  await updateSession(sessionId, (data) => {
+    requireStatus(data, 'lobby');
+    const { players, readyPlayerIds } = readSessionMeta(data);
+    if (!players.some((player) => player.id === playerId)) {
+      throw new NotAPlayerError();
+    }
+
+    const others = readyPlayerIds.filter((id) => id !== playerId);
+    return { readyPlayerIds: ready ? [...others, playerId] : others };
+  });
+}
+
+/** Leaves the lobby. The turn order is fixed from here on and the first player goes first. */
+export async function startSession(sessionId: string, actorId: string) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    requireStatus(data, 'lobby');
+    if (!readSessionMeta(data).players.length) {
+      throw new Error('Add at least one player before starting.');
+    }
+
+    return { status: 'playing', activePlayerIndex: 0, turnStartedAt: getStoryStore().serverTimestamp() };
+  });
+}
+
+/** Stops play early. The story stays readable until a host archives it with `finishSessionStory`. */
+export async function endSession(sessionId: string, actorId: string) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    requireStatus(data, 'playing');
+    return { status: 'finished' };
+  });
+}
+
+/**
+ * Ends play once the story's end date has passed. Like `skipOverdueTurn`, anyone
+ * viewing the story may call it. Resolves to whether this call ended the story.
+ */
+export async function endSessionIfDue(sessionId: string) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+
+  return store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(path);
+    if (!data) throw new StoryNotFoundError(sessionId);
+
+    const { status, endsAt } = readSessionMeta(data);
+    if (status !== 'playing' || endsAt === null || Date.now() < endsAt) return false;
+
+    transaction.set(path, { status: 'finished', updatedAt: store.serverTimestamp() }, { merge: true });
+    return true;
+  });
+}
+
+/** Sets when play stops on its own: at a word count, at a date, both or neither. */
+export async function setEndConditions(
+  sessionId: string,
+  actorId: string,
+  conditions: Pick<StorySessionState, 'targetWordCount' | 'endsAt'>
+) {
+  const { targetWordCount, endsAt } = conditions;
+  if (targetWordCount !== null && (!Number.isInteger(targetWordCount) || targetWordCount <= 0)) {
+    throw new Error('The target word count must be a positive whole number.');
+  }
+  if (endsAt !== null && !Number.isInteger(endsAt)) {
+    throw new Error('Pick a valid end date.');
+  }
+
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    if (readSessionMeta(data).status === 'finished') {
+      throw new StoryNotPlayingError('finished');
+    }
+    if (data.template && targetWordCount !== data.targetWordCount) {
+      throw new Error('A fill-in story ends when every blank is filled.');
+    }
+    return { targetWordCount, endsAt };
+  });
+}
+
+/** The active player gives up their turn without adding a word. */
+export async function passTurn(sessionId: string, submission: WordSubmission) {
+  await updateSession(sessionId, (data) => {
+    requirePlaying(data);
+    const { players, activePlayerIndex, turnNumber } = readSessionMeta(data);
+    requireTurn(players, activePlayerIndex, turnNumber, submission);
+    return advanceTurn(players, activePlayerIndex, turnNumber);
+  });
+}
+
+/**
+ * Moves an overdue turn on to the next player. Anyone viewing the story may call it;
+ * `expectedTurn` makes sure a turn that several clients saw expire only advances once.
+ * Resolves to whether this call did the skip.
+ */
+export async function skipOverdueTurn(sessionId: string, expectedTurn: number) {
+  const store = getStoryStore();
+  const path = getSessionPath(sessionId);
+
+  return store.runTransaction(async (transaction) => {
+    const data = await transaction.get<StorySessionDoc>(path);
+    if (!data) throw new StoryNotFoundError(sessionId);
+
+    const meta = readSessionMeta(data);
+    const deadline = getTurnDeadline(meta);
+    if (
+      meta.status !== 'playing' ||
+      meta.turnNumber !== expectedTurn ||
+      !meta.players.length ||
+      deadline === null ||
+      Date.now() < deadline
+    ) {
+      return false;
+    }
 
     transaction.set(
-      ref,
+      path,
       {
-        ...data,
-        storyWords: nextWords,
-        players,
-        playerIds: mergePlayerIds(players),
-        activePlayerIndex: nextActiveIndex,
-        updatedAt: serverTimestamp(),
+        ...advanceTurn(meta.players, meta.activePlayerIndex, meta.turnNumber),
+        updatedAt: store.serverTimestamp(),
       },
       { merge: true }
     );
+    return true;
   });
 }
 
-export async function resetSessionStory(sessionId: string) {
-  const ref = getSessionRef(sessionId);
+/** Sets how long each turn may take, or `null` for no limit. The current turn starts over. */
+export async function setTurnTimeLimit(sessionId: string, actorId: string, limitMs: number | null) {
+  if (limitMs !== null && (!Number.isInteger(limitMs) || limitMs <= 0 || limitMs > maxTurnTimeLimitMs)) {
+    throw new Error('Pick a turn time limit between one second and one week.');
+  }
 
-  await setDoc(
-    ref,
-    {
-      storyWords: [],
-      activePlayerIndex: 0,
-      playerIds: mergePlayerIds([]),
-      updatedAt: serverTimestamp(),
-    },
-    { merge: true }
-  );
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    return { turnTimeLimitMs: limitMs, turnStartedAt: getStoryStore().serverTimestamp() };
+  });
 }
 
-export async function findSession(sessionId: string) {
-  const ref = getSessionRef(sessionId);
-  const snapshot = await getDoc(ref);
-  if (!snapshot.exists()) return null;
-  const data = snapshot.data() as StorySessionDoc;
-  const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
+function requireAccountPlayer(players: Player[], playerId: string) {
+  const player = players.find((entry) => entry.id === playerId);
+  if (!player) {
+    throw new NotAPlayerError();
+  }
+  if (isLocalPlayer(player)) {
+    throw new StoryPermissionError("Pass-and-play players and kids can't be owners or co-hosts.");
+  }
+}
+
+export async function transferOwnership(sessionId: string, actorId: string, newOwnerId: string) {
+  await updateSession(sessionId, (data) => {
+    requireOwner(data, actorId);
+    const { players, coHostIds } = readSessionMeta(data);
+    requireAccountPlayer(players, newOwnerId);
+
+    return { ownerId: newOwnerId, coHostIds: coHostIds.filter((id) => id !== newOwnerId) };
+  });
+}
+
+export async function setCoHost(sessionId: string, actorId: string, playerId: string, isCoHost: boolean) {
+  await updateSession(sessionId, (data) => {
+    requireOwner(data, actorId);
+    const { players, ownerId, coHostIds } = readSessionMeta(data);
+    requireAccountPlayer(players, playerId);
+
+    const others = coHostIds.filter((id) => id !== playerId);
+    return { coHostIds: isCoHost && playerId !== ownerId ? [...others, playerId] : others };
+  });
+}
+
+// Takes a player out of the rotation; an owner hands the story to the longest-standing player.
+function withoutPlayer(data: StorySessionDoc, playerId: string): StoreData {
+  const { players, activePlayerIndex, ownerId, coHostIds, readyPlayerIds } = readSessionMeta(data);
+  if (!players.some((player) => player.id === playerId)) {
+    throw new NotAPlayerError();
+  }
+
+  // Pass-and-play players and kids can't take turns without the account whose device they play on.
+  const isLeaving = (player: Player) => player.id === playerId || player.managedBy === playerId;
+  const leavingIds = players.filter(isLeaving).map((player) => player.id);
+  if (leavingIds.length > maxPlayersLeavingTogether) {
+    throw new Error('Remove some of the players on this device first, then try again.');
+  }
+
+  const next = normalizePlayers(
+    players.filter((player) => !isLeaving(player)),
+    activePlayerIndex,
+    players
+  );
+  const nextOwnerId = ownerId === playerId ? longestStandingPlayer(next.players)?.id ?? null : ownerId;
+  const wasTheirTurn = isLeaving(players[activePlayerIndex]);
+
   return {
-    id: sessionId,
-    players,
-    storyWords: data.storyWords ?? [],
-    activePlayerIndex: activeIndex,
-    updatedAt: data.updatedAt,
+    players: next.players,
+    playerIds: mergePlayerIds(next.players),
+    activePlayerIndex: next.activeIndex,
+    ownerId: nextOwnerId,
+    coHostIds: coHostIds.filter((id) => id !== playerId && id !== nextOwnerId),
+    readyPlayerIds: readyPlayerIds.filter((id) => !leavingIds.includes(id)),
+    formerPlayers: [...(data.formerPlayers ?? []), ...players.filter(isLeaving)].slice(-maxFormerPlayers),
+    // The next player gets a full turn rather than what was left of the leaver's.
+    ...(wasTheirTurn ? { turnStartedAt: getStoryStore().serverTimestamp() } : {}),
   };
 }
 
-export async function getSessionsForUser(userId: string) {
-  const db = getDb();
-  const sessionsRef = collection(db, collectionName);
-  const q = query(sessionsRef, where('playerIds', 'array-contains', userId));
-  const results = await getDocs(q);
-  let sessions = results.docs.map(formatSessionDoc);
+/**
+ * Removes the player, and the players on their device if they have any. If it was one of
+ * their turns, the next player in the rotation goes.
+ */
+export async function leaveSession(sessionId: string, playerId: string) {
+  await updateSession(sessionId, (data) => withoutPlayer(data, playerId));
+}
+
+/** Lets a host take someone out of the story. The owner has to hand the story on first. */
+export async function removePlayerFromSession(sessionId: string, actorId: string, playerId: string) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    if (readSessionMeta(data).ownerId === playerId) {
+      throw new StoryPermissionError("The story owner can't be removed.");
+    }
+
+    return withoutPlayer(data, playerId);
+  });
+}
 
-  // Fallback for legacy docs that don't have playerIds set.
-  if (!sessions.length) {
-    const allDocs = await getDocs(sessionsRef);
-    sessions = allDocs.docs
-      .map(formatSessionDoc)
-      .filter((session) => session.players.some((player) => player.id === userId));
+/**
+ * Sets a new turn order while the story is in the lobby. `playerIds` must list every
+ * current player exactly once.
+ */
+export async function reorderPlayers(sessionId: string, actorId: string, playerIds: string[]) {
+  await updateSession(sessionId, (data) => {
+    requireHost(data, actorId);
+    requireStatus(data, 'lobby');
+    const { players, activePlayerIndex } = readSessionMeta(data);
+    const reordered = playerIds
+      .map((id) => players.find((player) => player.id === id))
+      .filter((player): player is Player => Boolean(player));
+    if (reordered.length !== players.length || new Set(playerIds).size !== playerIds.length) {
+      throw new Error('The player list changed while you were reordering. Please try again.');
+    }
+
+    const next = normalizePlayers(reordered, activePlayerIndex, players);
+    return {
+      players: next.players,
+      playerIds: mergePlayerIds(next.players),
+      activePlayerIndex: next.activeIndex,
+    };
+  });
+}
+
+/**
+ * The story with this join code, or `null` if there is none. Throws `PrivateStoryError`
+ * for a story that needs approval and that the user isn't in; they can still ask to join.
+ */
+export async function findSession(sessionId: string) {
+  try {
+    const data = await getStoryStore().get<StorySessionDoc>(getSessionPath(sessionId));
+    return data ? formatSessionDoc({ id: sessionId, data }) : null;
+  } catch (error) {
+    throw isPermissionDenied(error) ? new PrivateStoryError() : error;
   }
+}
 
-  return sessions;
+// Stories from before `playerIds` show up here once someone joins them, which fills it in.
+export async function getSessionsForUser(userId: string) {
+  const results = await getStoryStore().query<StorySessionDoc>(collectionName, {
+    where: [{ field: 'playerIds', op: 'array-contains', value: userId }],
+  });
+  return results.map(formatSessionDoc);
 }
 
-function formatSessionDoc(docSnapshot: { id: string; data: () => StorySessionDoc }) {
-  const data = docSnapshot.data() as StorySessionDoc;
-  const { players, activeIndex } = normalizePlayers(data.players ?? [], data.activePlayerIndex ?? 0);
+/** Every story in the family, whether or not `userId` plays in it. */
+export async function getSessionsForFamily(familyId: string) {
+  const results = await getStoryStore().query<StorySessionDoc>(collectionName, {
+    where: [{ field: 'familyId', op: '==', value: familyId }],
+  });
+  return results.map(formatSessionDoc);
+}
+
+function formatSessionDoc({ id, data }: StoreDocument<StorySessionDoc>): StorySessionSummary {
   return {
-    id: docSnapshot.id,
-    players,
-    storyWords: data.storyWords ?? [],
-    activePlayerIndex: activeIndex,
+    id,
+    ...readSessionMeta(data),
+    recentWords: readRecentWords(data),
     updatedAt: data.updatedAt,
   };
 }
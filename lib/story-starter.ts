@@ -0,0 +1,172 @@
+import { getStoryStore, toMillis } from './story-store';
+
+/**
+ * Something to get a story going: an opening line, where it happens and who's in it.
+ * Shown above the story text; the players carry on from the opening line.
+ */
+export type StoryStarter = {
+  title: string;
+  opening: string;
+  setting: string;
+  characters: string[];
+};
+
+/** A built-in starter, or one the user saved in `users/{uid}/starters/{id}`. */
+export type StarterEntry = StoryStarter & {
+  id: string;
+  /** Only set on saved starters. */
+  createdAt?: number | null;
+};
+
+export const maxStarterTitleLength = 60;
+export const maxStarterOpeningLength = 200;
+export const maxStarterSettingLength = 100;
+export const maxStarterCharacters = 6;
+export const maxStarterCharacterLength = 40;
+const maxSavedStarters = 30;
+
+const usersCollectionName = 'users';
+const startersCollectionName = 'starters';
+
+export const storyStarters: StarterEntry[] = [
+  {
+    id: 'pirate-adventure',
+    title: '🏴‍☠️ Pirate adventure',
+    opening: 'The map was soggy, but the X was still there.',
+    setting: 'A leaky ship sailing for Skull Island',
+    characters: ['Captain Barnacle', 'a parrot who only tells lies', 'the cabin kid'],
+  },
+  {
+    id: 'bedtime',
+    title: '🌙 Bedtime story',
+    opening: 'Once upon a time, the moon could not fall asleep.',
+    setting: 'A quiet town where everything is made of blankets',
+    characters: ['the sleepy moon', 'a little owl', 'a star who hums'],
+  },
+  {
+    id: 'space',
+    title: '🚀 Space mission',
+    opening: 'Three, two, one… the rocket sneezed instead of taking off.',
+    setting: 'A wobbly rocket on the way to a purple planet',
+    characters: ['Commander Zip', 'a robot called Bolt', 'a friendly alien'],
+  },
+  {
+    id: 'fairy-tale',
+    title: '🏰 Fairy tale',
+    opening: 'The princess had one rule: nobody touches the magic spoon.',
+    setting: 'A castle at the edge of an enchanted forest',
+    characters: ['a brave princess', 'a grumpy dragon', 'a talking frog'],
+  },
+  {
+    id: 'mystery',
+    title: '🔍 Mystery',
+    opening: 'On Monday morning, every cookie in town had vanished.',
+    setting: 'A sleepy village with a very nosy bakery',
+    characters: ['Detective Pip', 'the baker', 'a suspicious cat'],
+  },
+  {
+    id: 'dinosaurs',
+    title: '🦖 Dinosaur days',
+    opening: 'The egg in the garden started to wiggle.',
+    setting: 'A back garden that is secretly a jungle',
+    characters: ['a baby dinosaur', 'Grandma', 'the dog next door'],
+  },
+  {
+    id: 'superheroes',
+    title: '🦸 Superheroes',
+    opening: 'Nobody at school knew that the new kid could fly.',
+    setting: 'A city where the traffic lights have gone wrong',
+    characters: ['Captain Quick', 'a sidekick hamster', 'Doctor Muddle'],
+  },
+  {
+    id: 'under-the-sea',
+    title: '🐙 Under the sea',
+    opening: 'The octopus had lost one of her eight socks.',
+    setting: 'A coral reef with a sunken treasure chest',
+    characters: ['an octopus', 'a shy shark', 'a mermaid mail carrier'],
+  },
+  {
+    id: 'silly',
+    title: '🤪 Silly day',
+    opening: 'When I woke up, my shoes were having breakfast without me.',
+    setting: 'A house where everything is upside down',
+    characters: ['me', 'a very polite toaster', 'the shoes'],
+  },
+  {
+    id: 'spooky',
+    title: '👻 A little spooky',
+    opening: 'The old house on the hill had one light on, and it blinked.',
+    setting: 'A creaky house on a windy night',
+    characters: ['a ghost who is scared of the dark', 'two cousins', 'a bat'],
+  },
+];
+
+type SavedStarterDoc = StoryStarter & {
+  createdAt?: unknown;
+};
+
+function getStartersPath(userId: string) {
+  return `${usersCollectionName}/${userId}/${startersCollectionName}`;
+}
+
+function clean(text: string, maxLength: number) {
+  return text.trim().replace(/\s+/g, ' ').slice(0, maxLength);
+}
+
+/** Trims a starter to the lengths the session and the security rules accept. */
+export function cleanStarter(starter: StoryStarter): StoryStarter {
+  const cleaned = {
+    title: clean(starter.title, maxStarterTitleLength),
+    opening: clean(starter.opening, maxStarterOpeningLength),
+    setting: clean(starter.setting, maxStarterSettingLength),
+    characters: starter.characters
+      .map((character) => clean(character, maxStarterCharacterLength))
+      .filter(Boolean)
+      .slice(0, maxStarterCharacters),
+  };
+  if (!cleaned.opening) {
+    throw new Error('Give the starter an opening line.');
+  }
+  return { ...cleaned, title: cleaned.title || cleaned.opening.slice(0, maxStarterTitleLength) };
+}
+
+/** Copies the story fields, dropping `id` and `createdAt`, for storing on a session. */
+export function toStoryStarter({ title, opening, setting, characters }: StoryStarter): StoryStarter {
+  return { title, opening, setting, characters };
+}
+
+/** A random pick from `starters`, the built-in ones by default. */
+export function randomStarter(starters: StarterEntry[] = storyStarters) {
+  return starters[Math.floor(Math.random() * starters.length)];
+}
+
+/** The user's saved starters, oldest first. */
+export async function getSavedStarters(userId: string): Promise<StarterEntry[]> {
+  const results = await getStoryStore().query<SavedStarterDoc>(getStartersPath(userId), {
+    orderBy: { field: 'createdAt', direction: 'asc' },
+  });
+  return results.map(({ id, data }) => ({
+    id,
+    ...toStoryStarter({ ...data, characters: data.characters ?? [] }),
+    createdAt: toMillis(data.createdAt),
+  }));
+}
+
+/** Saves a starter to the user's account for reuse. Resolves to the saved entry. */
+export async function saveStarter(userId: string, starter: StoryStarter): Promise<StarterEntry> {
+  const store = getStoryStore();
+  const cleaned = cleanStarter(starter);
+
+  const existing = await getSavedStarters(userId);
+  if (existing.length >= maxSavedStarters) {
+    throw new Error(`You can save up to ${maxSavedStarters} starters. Delete one to make room.`);
+  }
+
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  await store.set(`${getStartersPath(userId)}/${id}`, { ...cleaned, createdAt: store.serverTimestamp() });
+  return { id, ...cleaned, createdAt: Date.now() };
+}
+
+export async function deleteSavedStarter(userId: string, starterId: string) {
+  await getStoryStore().delete(`${getStartersPath(userId)}/${starterId}`);
+}
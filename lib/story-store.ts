@@ -0,0 +1,122 @@
+import { createFirestoreStoryStore } from './firestore-story-store';
+import { createMemoryStoryStore } from './memory-story-store';
+
+export type StoreData = Record<string, unknown>;
+
+export type StoreDocument<T = StoreData> = {
+  id: string;
+  data: T;
+};
+
+export type StoreFilter = {
+  field: string;
+  op: '==' | '<' | '<=' | '>' | '>=' | 'array-contains';
+  value: unknown;
+};
+
+export type StoreOrder = {
+  field: string;
+  direction?: 'asc' | 'desc';
+};
+
+export type StoreQuery = {
+  where?: StoreFilter[];
+  orderBy?: StoreOrder;
+  limit?: number;
+};
+
+export type SetOptions = {
+  merge?: boolean;
+};
+
+export type Unsubscribe = () => void;
+
+/**
+ * Reads and writes inside a single atomic unit. Like Firestore, all reads must
+ * happen before the first write.
+ */
+export type StoryTransaction = {
+  get<T = StoreData>(path: string): Promise<T | null>;
+  set(path: string, data: StoreData, options?: SetOptions): void;
+  delete(path: string): void;
+};
+
+/**
+ * Persistence backend for story sessions. Paths are slash separated
+ * (`sessions/{id}`), and collections are addressed by their parent path
+ * (`sessions`).
+ */
+export type StoryStore = {
+  get<T = StoreData>(path: string): Promise<T | null>;
+  set(path: string, data: StoreData, options?: SetOptions): Promise<void>;
+  delete(path: string): Promise<void>;
+  query<T = StoreData>(collectionPath: string, query?: StoreQuery): Promise<StoreDocument<T>[]>;
+  runTransaction<R>(run: (transaction: StoryTransaction) => Promise<R>): Promise<R>;
+  subscribe<T = StoreData>(
+    path: string,
+    onChange: (data: T | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  subscribeQuery<T = StoreData>(
+    collectionPath: string,
+    query: StoreQuery,
+    onChange: (docs: StoreDocument<T>[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  /** Value the backend replaces with its own write time. */
+  serverTimestamp(): unknown;
+  /** Value the backend replaces with the field's array plus each of `values` not already in it. */
+  arrayUnion(...values: unknown[]): unknown;
+};
+
+/**
+ * A read or write the backend's access rules turned down. Carries Firestore's error code,
+ * so `isPermissionDenied` treats both backends alike.
+ */
+export class StoreAccessError extends Error {
+  readonly code = 'permission-denied';
+
+  constructor(path: string) {
+    super(`Missing or insufficient permissions for ${path}.`);
+    this.name = new.target.name;
+  }
+}
+
+export function isPermissionDenied(error: unknown) {
+  return (error as { code?: unknown } | null)?.code === 'permission-denied';
+}
+
+export type StoryBackend = 'firestore' | 'memory';
+
+let storeInstance: StoryStore | null = null;
+
+function resolveBackend(): StoryBackend {
+  return process.env.EXPO_PUBLIC_STORY_BACKEND === 'memory' ? 'memory' : 'firestore';
+}
+
+export function getStoryStore(): StoryStore {
+  if (storeInstance) {
+    return storeInstance;
+  }
+
+  storeInstance = resolveBackend() === 'memory' ? createMemoryStoryStore() : createFirestoreStoryStore();
+  return storeInstance;
+}
+
+/**
+ * Swap the active backend, e.g. an in-memory store for demos or tests.
+ * Passing `null` falls back to the env-configured backend on next use.
+ */
+export function setStoryStore(store: StoryStore | null) {
+  storeInstance = store;
+}
+
+/** Normalizes Firestore Timestamps, Dates and epoch numbers to milliseconds. */
+export function toMillis(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+    return (value as { toMillis: () => number }).toMillis();
+  }
+  return null;
+}
@@ -0,0 +1,145 @@
+import type { ContributionMode } from './contribution-mode';
+
+/** What a blank asks for. Written in a template as `[noun]`, `[family-member]` and so on. */
+export type BlankKind =
+  | 'noun'
+  | 'plural-noun'
+  | 'verb'
+  | 'verb-ing'
+  | 'adjective'
+  | 'adverb'
+  | 'place'
+  | 'family-member'
+  | 'animal'
+  | 'food'
+  | 'number'
+  | 'silly-word';
+
+/**
+ * A fill-in-the-blank story. `text` is the story with blanks marked like `[adjective]`;
+ * players fill them in order, one per turn, without seeing the text around them.
+ */
+export type StoryTemplate = {
+  id: string;
+  title: string;
+  text: string;
+};
+
+export type TemplatePart = { kind: 'text'; text: string } | { kind: 'blank'; blank: BlankKind; index: number };
+
+export const maxTemplateTextLength = 3000;
+
+/** Answers are short: "Aunt Jo" or "the moon" fit, a whole sentence doesn't. */
+export const templateAnswerMode: ContributionMode = { kind: 'words', maxWords: 4 };
+
+const blankHints: Record<BlankKind, { label: string; example: string }> = {
+  noun: { label: 'A thing', example: 'sock' },
+  'plural-noun': { label: 'Some things', example: 'pancakes' },
+  verb: { label: 'An action word', example: 'wobble' },
+  'verb-ing': { label: 'An action word ending in -ing', example: 'dancing' },
+  adjective: { label: 'A describing word', example: 'slimy' },
+  adverb: { label: 'A how word ending in -ly', example: 'loudly' },
+  place: { label: 'A place', example: 'the supermarket' },
+  'family-member': { label: "Someone in the family's name", example: 'Grandpa Joe' },
+  animal: { label: 'An animal', example: 'hippo' },
+  food: { label: 'Something to eat', example: 'spaghetti' },
+  number: { label: 'A number', example: '47' },
+  'silly-word': { label: 'A silly made-up word', example: 'flibbertigibbet' },
+};
+
+const blankKinds = Object.keys(blankHints) as BlankKind[];
+
+export const storyTemplates: StoryTemplate[] = [
+  {
+    id: 'day-at-the-zoo',
+    title: '🦒 A day at the zoo',
+    text:
+      'Last weekend my [family-member] took me to the zoo. The first thing we saw was a [adjective] ' +
+      '[animal] eating [plural-noun]. It looked at us and started [verb-ing]! Then the zookeeper gave us ' +
+      '[number] buckets of [food] to feed the penguins. On the way home, [family-member] said it was the ' +
+      'most [adjective] day ever.',
+  },
+  {
+    id: 'pirate-ship',
+    title: '🏴‍☠️ Life on a pirate ship',
+    text:
+      'Captain [family-member] stood on the deck and shouted "[silly-word]!" at the [adjective] sea. ' +
+      'The crew had been sailing for [number] days looking for the lost [noun] of [place]. Every morning ' +
+      'they ate [food] and [verb] around the mast. One night a giant [animal] climbed aboard and ' +
+      '[adverb] stole all their [plural-noun].',
+  },
+  {
+    id: 'birthday-party',
+    title: '🎂 The birthday party',
+    text:
+      'For my birthday, [family-member] baked a cake shaped like a [adjective] [noun]. Everybody came to ' +
+      '[place] wearing hats made of [plural-noun]. We played pin the tail on the [animal] until someone ' +
+      'started [verb-ing]. When I blew out the [number] candles, I [adverb] wished for a pet [animal].',
+  },
+  {
+    id: 'space-trip',
+    title: '🚀 Trip to space',
+    text:
+      'Our rocket was powered by [food] and smelled a bit [adjective]. [family-member] was the pilot, ' +
+      'and I was in charge of the [noun]. After [number] hours we landed on planet [silly-word], where ' +
+      'the aliens looked like [plural-noun] and loved [verb-ing]. They gave us a [adjective] ' +
+      '[animal] to take back to [place].',
+  },
+  {
+    id: 'school-news',
+    title: '📰 Breaking school news',
+    text:
+      'This just in: a [adjective] [animal] has been found in the school [noun]! Head teacher ' +
+      '[family-member] says it has already eaten [number] [plural-noun] and refuses to stop [verb-ing]. ' +
+      'Pupils are advised to [verb] [adverb] to [place] and wait for further news.',
+  },
+  {
+    id: 'bedtime',
+    title: '🌙 The bedtime that went wrong',
+    text:
+      'It was bedtime, but my [noun] kept [verb-ing]. [family-member] read me a [adjective] story about ' +
+      'a [animal] who lived in [place]. Then a [adjective] noise came from under the bed. I peeked and ' +
+      'saw [number] tiny [plural-noun] eating [food]. "[silly-word]!" they whispered, and I fell ' +
+      '[adverb] asleep.',
+  },
+];
+
+/**
+ * Splits a template into text and blanks, numbering the blanks in order. A bracketed word
+ * that isn't a blank kind (a typo like `[nuon]`) asks for a thing.
+ */
+export function parseTemplate(text: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let index = 0;
+  let last = 0;
+  Array.from(text.matchAll(/\[([a-z-]+)\]/g)).forEach((match) => {
+    const offset = match.index ?? 0;
+    if (offset > last) parts.push({ kind: 'text', text: text.slice(last, offset) });
+    const blank = blankKinds.includes(match[1] as BlankKind) ? (match[1] as BlankKind) : 'noun';
+    parts.push({ kind: 'blank', blank, index });
+    index += 1;
+    last = offset + match[0].length;
+  });
+  if (last < text.length) parts.push({ kind: 'text', text: text.slice(last) });
+  return parts;
+}
+
+/** The blanks in order, one per turn. */
+export function getBlanks(text: string) {
+  return parseTemplate(text).flatMap((part) => (part.kind === 'blank' ? [part.blank] : []));
+}
+
+/** The story with `answers` in its blanks; blanks without an answer yet show as `____`. */
+export function fillTemplate(text: string, answers: string[]) {
+  return parseTemplate(text)
+    .map((part) => (part.kind === 'text' ? part.text : answers[part.index] ?? '____'))
+    .join('');
+}
+
+export function describeBlank(blank: BlankKind) {
+  return blankHints[blank].label;
+}
+
+export function blankExample(blank: BlankKind) {
+  return blankHints[blank].example;
+}
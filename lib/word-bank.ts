@@ -0,0 +1,262 @@
+import type { AgeBand } from './child-profile';
+
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'article' | 'preposition' | 'pronoun' | 'joiner';
+
+export type WordIdeas = {
+  partOfSpeech: PartOfSpeech;
+  words: string[];
+};
+
+type BankEntry = {
+  /** Words any reader knows. */
+  simple: string[];
+  /** Longer words for readers of 9 and up. */
+  richer: string[];
+};
+
+// Verbs are in the past tense, the way stories are usually told.
+const bank: Record<PartOfSpeech, BankEntry> = {
+  noun: {
+    simple: [
+      'cat',
+      'dog',
+      'dragon',
+      'castle',
+      'cake',
+      'frog',
+      'robot',
+      'rocket',
+      'tree',
+      'moon',
+      'ball',
+      'bear',
+      'fish',
+      'boat',
+      'monster',
+      'princess',
+      'pirate',
+      'sandwich',
+      'unicorn',
+      'puddle',
+      'sock',
+      'wizard',
+      'bus',
+      'cookie',
+    ],
+    richer: [
+      'adventure',
+      'lighthouse',
+      'volcano',
+      'detective',
+      'treasure',
+      'spaceship',
+      'jungle',
+      'inventor',
+      'mystery',
+      'kingdom',
+      'telescope',
+      'submarine',
+      'library',
+      'tornado',
+      'labyrinth',
+      'astronaut',
+    ],
+  },
+  verb: {
+    simple: [
+      'ran',
+      'jumped',
+      'ate',
+      'sang',
+      'danced',
+      'flew',
+      'hid',
+      'found',
+      'laughed',
+      'slept',
+      'swam',
+      'climbed',
+      'sneezed',
+      'wiggled',
+      'hopped',
+      'shouted',
+      'played',
+      'dug',
+    ],
+    richer: [
+      'discovered',
+      'whispered',
+      'tumbled',
+      'wandered',
+      'galloped',
+      'vanished',
+      'exploded',
+      'invented',
+      'escaped',
+      'tiptoed',
+      'shivered',
+      'grumbled',
+      'soared',
+      'rescued',
+    ],
+  },
+  adjective: {
+    simple: [
+      'big',
+      'tiny',
+      'happy',
+      'silly',
+      'red',
+      'blue',
+      'green',
+      'fast',
+      'slow',
+      'funny',
+      'sleepy',
+      'hungry',
+      'soft',
+      'loud',
+      'shiny',
+      'wet',
+      'fluffy',
+      'sticky',
+    ],
+    richer: [
+      'enormous',
+      'mysterious',
+      'ancient',
+      'gigantic',
+      'curious',
+      'brave',
+      'grumpy',
+      'invisible',
+      'magnificent',
+      'peculiar',
+      'sparkling',
+      'ferocious',
+      'gloomy',
+      'wobbly',
+    ],
+  },
+  adverb: {
+    simple: ['fast', 'slowly', 'quietly', 'loudly', 'happily', 'away', 'up', 'down', 'very', 'again'],
+    richer: ['suddenly', 'carefully', 'bravely', 'secretly', 'gracefully', 'nervously', 'eventually', 'furiously'],
+  },
+  article: {
+    simple: ['the', 'a', 'an', 'my', 'your', 'one', 'some', 'every', 'his', 'her', 'their', 'our'],
+    richer: [],
+  },
+  preposition: {
+    simple: ['in', 'on', 'under', 'over', 'with', 'to', 'into', 'behind', 'near', 'from', 'up', 'at'],
+    richer: ['beneath', 'across', 'beyond', 'through', 'towards', 'inside', 'among'],
+  },
+  pronoun: {
+    simple: ['he', 'she', 'they', 'it', 'we', 'I', 'you', 'everyone', 'nobody'],
+    richer: [],
+  },
+  joiner: {
+    simple: ['and', 'but', 'then', 'so', 'because', 'or', 'when'],
+    richer: ['although', 'meanwhile', 'until', 'while', 'unless'],
+  },
+};
+
+// What tends to come next, most likely first.
+const followers: Record<PartOfSpeech | 'start', PartOfSpeech[]> = {
+  start: ['article', 'pronoun', 'adjective'],
+  article: ['adjective', 'noun'],
+  adjective: ['noun', 'adjective'],
+  noun: ['verb', 'joiner', 'preposition'],
+  pronoun: ['verb'],
+  verb: ['preposition', 'adverb', 'article'],
+  adverb: ['verb', 'preposition', 'joiner'],
+  preposition: ['article', 'noun'],
+  joiner: ['article', 'pronoun', 'noun'],
+};
+
+const lookup = new Map<string, PartOfSpeech>();
+// Closed word classes first, so "up" counts as a preposition and "fast" as an adjective.
+(['article', 'pronoun', 'preposition', 'joiner', 'adjective', 'noun', 'verb', 'adverb'] as PartOfSpeech[]).forEach(
+  (partOfSpeech) =>
+    [...bank[partOfSpeech].simple, ...bank[partOfSpeech].richer].forEach((word) => {
+      if (!lookup.has(word.toLowerCase())) lookup.set(word.toLowerCase(), partOfSpeech);
+    })
+);
+
+/** A best guess from the bank, then from the word's ending; unknown words count as nouns. */
+export function guessPartOfSpeech(word: string): PartOfSpeech {
+  const cleaned = word.toLowerCase().replace(/[^a-z'-]/g, '');
+  const known = lookup.get(cleaned);
+  if (known) return known;
+  if (/ly$/.test(cleaned)) return 'adverb';
+  if (/(ed|ing)$/.test(cleaned)) return 'verb';
+  if (/(ful|ous|ish|ive|less|able|y)$/.test(cleaned)) return 'adjective';
+  return 'noun';
+}
+
+// Readers under 9 get the simple words only.
+function wordsFor(partOfSpeech: PartOfSpeech, ageBand: AgeBand | null) {
+  const entry = bank[partOfSpeech];
+  return ageBand === 'under-6' || ageBand === '6-8' ? entry.simple : [...entry.simple, ...entry.richer];
+}
+
+// A small deterministic shuffle, so ideas stay put for a turn instead of changing on every render.
+function shuffled(words: string[], seed: number) {
+  let state = seed + 1;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  const result = [...words];
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [result[index], result[swap]] = [result[swap], result[index]];
+  }
+  return result;
+}
+
+/**
+ * Word ideas that could follow `previousWord` (`null` at the start of a sentence), grouped
+ * by part of speech. `ageBand` is the writer's, or `null` for grown-ups; `seed` picks which
+ * words to show, e.g. the turn number.
+ */
+export function suggestWords({
+  previousWord,
+  ageBand = null,
+  seed = 0,
+  perGroup = 5,
+}: {
+  previousWord: string | null;
+  ageBand?: AgeBand | null;
+  seed?: number;
+  perGroup?: number;
+}): WordIdeas[] {
+  const parts = followers[previousWord ? guessPartOfSpeech(previousWord) : 'start'];
+  const previous = previousWord?.toLowerCase();
+  return parts.map((partOfSpeech) => ({
+    partOfSpeech,
+    words: shuffled(wordsFor(partOfSpeech, ageBand), seed)
+      .filter((word) => word !== previous)
+      .slice(0, perGroup),
+  }));
+}
+
+export function describePartOfSpeech(partOfSpeech: PartOfSpeech) {
+  switch (partOfSpeech) {
+    case 'noun':
+      return 'Things';
+    case 'verb':
+      return 'Actions';
+    case 'adjective':
+      return 'Describing words';
+    case 'adverb':
+      return 'How';
+    case 'article':
+      return 'Starters';
+    case 'preposition':
+      return 'Where';
+    case 'pronoun':
+      return 'Who';
+    case 'joiner':
+      return 'Joining words';
+  }
+}
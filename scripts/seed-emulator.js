@@ -0,0 +1,147 @@
+#!/usr/bin/env node
+
+/**
+ * Loads sample users and story sessions into the local Firebase emulators.
+ * Start the emulators first (`npm run emulators`), then run `npm run seed:emulator`.
+ * Existing emulator data is wiped so every run starts from the same state.
+ * All sample accounts use the password "password".
+ */
+
+const projectId = "demo-fam-bam";
+const host = process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST || "localhost";
+const authBase = `http://${host}:9099`;
+const firestoreBase = `http://${host}:8080`;
+const documentsPath = `projects/${projectId}/databases/(default)/documents`;
+
+const sampleUsers = [
+  { key: "grandma", email: "grandma@example.com", displayName: "Grandma" },
+  { key: "dad", email: "dad@example.com", displayName: "Dad" },
+  { key: "maya", email: "maya@example.com", displayName: "Maya" },
+];
+
+const sampleSessions = [
+  {
+    id: "BLUE-TIGER-42",
+    playerKeys: ["grandma", "dad", "maya"],
+    storyWords: ["Once", "upon", "a", "time", "a", "purple", "llama"],
+  },
+  {
+    // Stored the pre-subcollection way, to exercise migrateSessionWords.
+    id: "bedtime-tale",
+    playerKeys: ["dad", "maya"],
+    storyWords: ["The", "sleepy", "dragon"],
+    legacy: true,
+  },
+];
+
+const request = async (url, options = {}) => {
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      // The emulators treat the "owner" token as an admin, bypassing security rules.
+      Authorization: "Bearer owner",
+      ...options.headers,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`${options.method || "GET"} ${url} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+};
+
+// Converts a plain JS value into the Firestore REST API's typed value format.
+const toFirestoreValue = (value) => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+  if (typeof value === "boolean") return { booleanValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === "object") return { mapValue: { fields: toFirestoreFields(value) } };
+  return { stringValue: String(value) };
+};
+
+const toFirestoreFields = (data) =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, toFirestoreValue(value)]));
+
+const clearEmulators = async () => {
+  await request(`${authBase}/emulator/v1/projects/${projectId}/accounts`, { method: "DELETE" });
+  await request(`${firestoreBase}/emulator/v1/projects/${projectId}/databases/(default)/documents`, {
+    method: "DELETE",
+  });
+  console.log("🧹 Cleared emulator data.");
+};
+
+const createUser = async ({ email, displayName }) => {
+  const result = await request(`${authBase}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=demo-api-key`, {
+    method: "POST",
+    body: JSON.stringify({ email, password: "password", displayName, returnSecureToken: true }),
+  });
+  console.log(`👤 Created ${displayName} <${email}> (${result.localId})`);
+  return result.localId;
+};
+
+const writeDocument = async (path, data) => {
+  await request(`${firestoreBase}/v1/${documentsPath}/${path}`, {
+    method: "PATCH",
+    body: JSON.stringify({ fields: toFirestoreFields(data) }),
+  });
+};
+
+const seed = async () => {
+  await clearEmulators();
+
+  const uids = {};
+  for (const user of sampleUsers) {
+    uids[user.key] = await createUser(user);
+  }
+
+  for (const session of sampleSessions) {
+    const players = session.playerKeys.map((key) => ({
+      id: uids[key],
+      name: sampleUsers.find((user) => user.key === key).displayName,
+    }));
+    const base = {
+      players,
+      playerIds: players.map((player) => player.id),
+      activePlayerIndex: session.storyWords.length % players.length,
+      turnNumber: session.storyWords.length,
+      createdBy: players[0].id,
+      createdAt: new Date(),
+      ownerId: players[0].id,
+      coHostIds: [],
+      updatedAt: new Date(),
+    };
+
+    if (session.legacy) {
+      await writeDocument(`sessions/${session.id}`, { ...base, storyWords: session.storyWords });
+    } else {
+      const words = session.storyWords.map((word, index) => ({
+        index,
+        word,
+        authorId: players[index % players.length].id,
+        turn: index,
+        createdAt: Date.now(),
+      }));
+      for (const word of words) {
+        await writeDocument(`sessions/${session.id}/words/${word.index}`, word);
+      }
+      await writeDocument(`sessions/${session.id}`, {
+        ...base,
+        wordCount: words.length,
+        recentWords: words.slice(-5),
+      });
+    }
+    console.log(`📖 Seeded sessions/${session.id}`);
+  }
+
+  console.log("\n✅ Emulator seed complete. Sign in with any sample email and the password \"password\".");
+};
+
+seed().catch((error) => {
+  console.error(`❌ Seeding failed: ${error.message}`);
+  console.error("Is the emulator suite running? Start it with `npm run emulators`.");
+  process.exitCode = 1;
+});